@@ -0,0 +1,123 @@
+/**
+ * Offline evaluation of the root cause analysis
+ *
+ * Usage:
+ *   npm run eval -- fixtures --model stub
+ *   npm run eval -- fixtures --model bedrock --output reports/after.json --baseline reports/before.json
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { logger } from "../lambda/lib/logger.js";
+import { ConfigurationService, HistoryCompressionMode } from "../lambda/lib/configuration-service.js";
+import {
+  EvaluationReport,
+  MODEL_BACKENDS,
+  ScenarioResult,
+  compareWithBaseline,
+  loadScenarios,
+  runEvaluation
+} from "../lambda/lib/local/evaluation.js";
+
+const USAGE = `Usage: npm run eval -- <scenario directory> [options]
+
+Options:
+  --model <name>          Model backend: ${Object.keys(MODEL_BACKENDS).join(", ")} (default: stub)
+  --history-compression <mode>
+                          truncate or summarize, to compare the history compression strategies
+  --output <path>         Save the report as JSON to use it as a baseline later
+  --baseline <path>       Compare the results with a saved report
+  --verbose               Show the application logs
+  --help                  Show this message`;
+
+const formatMatches = (matches: ScenarioResult["rootCause"]) =>
+  `${matches.filter(match => match.found).length}/${matches.length}`;
+
+const printTable = (rows: string[][]) => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  rows.forEach(row => console.log(row.map((cell, column) => cell.padEnd(widths[column])).join("  ")));
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      model: { type: "string", default: "stub" },
+      "history-compression": { type: "string" },
+      output: { type: "string" },
+      baseline: { type: "string" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  // Application logs are JSON lines for CloudWatch Logs, only errors are shown by default
+  logger.setLogLevel(values.verbose ? "INFO" : "ERROR");
+
+  const scenarios = loadScenarios(positionals[0]);
+  if (scenarios.length === 0) {
+    throw new Error(`No scenario with "expected" was found in ${positionals[0]}`);
+  }
+
+  const configService = ConfigurationService.getInstance();
+  if (values["history-compression"]) {
+    configService.setConfig({ historyCompression: values["history-compression"] as HistoryCompressionMode });
+  }
+
+  const report = await runEvaluation(scenarios, values.model!, configService);
+  const baseline = values.baseline
+    ? JSON.parse(readFileSync(values.baseline, "utf-8")) as EvaluationReport
+    : undefined;
+  const comparisons = baseline ? compareWithBaseline(report, baseline) : [];
+
+  // Summary table
+  const describeSetup = (evaluation: EvaluationReport) =>
+    `${evaluation.model}${evaluation.historyCompression ? `, history: ${evaluation.historyCompression}` : ""}`;
+  console.log(`\nModel: ${describeSetup(report)}${baseline ? ` (baseline: ${describeSetup(baseline)}, ${baseline.createdAt})` : ""}\n`);
+  printTable([
+    ["Scenario", "Root cause", "Evidence", "Cycles", "Result", ...(baseline ? ["Baseline"] : [])],
+    ...report.results.map((result, index) => [
+      result.name,
+      formatMatches(result.rootCause),
+      formatMatches(result.evidence),
+      String(result.cycles),
+      result.error ? "ERROR" : result.passed ? "PASS" : "FAIL",
+      ...(baseline ? [comparisons[index].passedBefore === null ? "-" : comparisons[index].passedBefore ? "PASS" : "FAIL"] : [])
+    ])
+  ]);
+  const passedCount = report.results.filter(result => result.passed).length;
+  console.log(`\n${passedCount}/${report.results.length} scenarios passed`);
+
+  // Details of each scenario
+  report.results.forEach((result, index) => {
+    const missing = [...result.rootCause, ...result.evidence].filter(match => !match.found).map(match => match.keyword);
+    const comparison = comparisons[index];
+    const lines = [
+      result.error ? `  error: ${result.error}` : "",
+      missing.length > 0 ? `  missing: ${missing.join(", ")}` : "",
+      comparison?.foundKeywords.length ? `  newly found: ${comparison.foundKeywords.join(", ")}` : "",
+      comparison?.lostKeywords.length ? `  no longer found: ${comparison.lostKeywords.join(", ")}` : "",
+      comparison?.answerDifference
+        ? `  answer changed at line ${comparison.answerDifference.line}\n    baseline: ${comparison.answerDifference.recorded}\n    current:  ${comparison.answerDifference.replayed}`
+        : ""
+    ].filter(Boolean);
+    if (lines.length > 0) {
+      console.log(`\n${result.name}\n${lines.join("\n")}`);
+    }
+  });
+
+  if (values.output) {
+    writeFileSync(values.output, JSON.stringify(report, null, 2));
+    console.log(`\nReport saved to ${values.output}`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,206 @@
+/**
+ * Local runner for ReActAgent
+ * Runs the analysis loop in the terminal instead of Lambda and Slack.
+ *
+ * Usage:
+ *   npm run local -- --error "5xx errors on ALB" --start 2025-01-01T00:00:00Z --end 2025-01-01T01:00:00Z
+ *   npm run local -- --fixture fixtures/alb-5xx-errors.json
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { parseArgs } from "util";
+import { logger } from "../lambda/lib/logger.js";
+import { ReactionState } from "../lambda/lib/react-agent.js";
+import { ConfigurationService, HistoryCompressionMode, ToolUseMode } from "../lambda/lib/configuration-service.js";
+import { AWSServiceFactory } from "../lambda/lib/aws/aws-service-factory.js";
+import { Fixture, FixtureReplayer, createFixtureServices } from "../lambda/lib/aws/fixtures/fixture-services.js";
+import { SessionRecorder, createRecordingServices } from "../lambda/lib/aws/fixtures/recording-services.js";
+import { createRecordingMetadata, createSessionBundle } from "../lambda/lib/session-recording.js";
+import { runAgent } from "../lambda/lib/local/agent-runner.js";
+import { FileSessionStore, InMemorySessionStore } from "../lambda/lib/session-store/index.js";
+import { I18nProvider, Language } from "../lambda/lib/messaging/providers/i18n-provider.js";
+import { describeTokenUsage } from "../lambda/lib/token-usage.js";
+
+const USAGE = `Usage: npm run local -- [options]
+
+Options:
+  --error <text>          Error description to analyze
+  --start <ISO 8601>      Start of the time range
+  --end <ISO 8601>        End of the time range
+  --fixture <path>        Replay recorded AWS responses and Bedrock replies from the fixture file (offline)
+  --record <path>         Save the run as a session bundle, which can be replayed by "npm run session -- replay"
+  --session-dir <path>    Save the session state (and the recording) as files in the directory instead of memory
+  --language <ja|en|ko|zh>
+                          Language of the prompts and the answer
+  --timezone <name>       IANA timezone of the timestamps in the outputs (e.g. UTC, America/New_York)
+  --max-cycles <number>   Maximum number of agent cycles
+  --token-budget <number> Maximum tokens of the session, the final answer is generated forcibly when it is reached
+  --tool-use-mode <mode>  native or xml (a fixture is replayed only in the mode it was recorded with)
+  --history-compression <mode>
+                          truncate or summarize, how the older history is compressed in the conversation
+  --verbose               Show the application logs
+  --help                  Show this message
+
+--error, --start and --end can be omitted when the fixture file has "input".`;
+
+const print = (label: string, body: string) => {
+  console.log(`\n----- ${label} -----\n${body.trim()}`);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      error: { type: "string" },
+      start: { type: "string" },
+      end: { type: "string" },
+      fixture: { type: "string" },
+      record: { type: "string" },
+      "session-dir": { type: "string" },
+      language: { type: "string" },
+      timezone: { type: "string" },
+      "max-cycles": { type: "string" },
+      "token-budget": { type: "string" },
+      "tool-use-mode": { type: "string" },
+      "history-compression": { type: "string" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Application logs are JSON lines for CloudWatch Logs, only errors are shown by default
+  logger.setLogLevel(values.verbose ? "INFO" : "ERROR");
+
+  const configService = ConfigurationService.getInstance();
+
+  // Replace AWS services with the recorded responses
+  let replayer: FixtureReplayer | undefined;
+  let fixture: Fixture | undefined;
+  if (values.fixture) {
+    fixture = JSON.parse(readFileSync(values.fixture, "utf-8")) as Fixture;
+    if (fixture.config) {
+      configService.setConfig(fixture.config);
+    }
+    replayer = new FixtureReplayer(fixture.responses);
+    AWSServiceFactory.setServices(createFixtureServices(replayer));
+  }
+
+  // Record on top of the real services or the fixture
+  const recorder = values.record ? new SessionRecorder() : undefined;
+  if (recorder) {
+    AWSServiceFactory.setServices(createRecordingServices(recorder));
+  }
+
+  // Command line options take precedence over the environment variables and the fixture
+  if (values.language) {
+    configService.setConfig({ language: values.language });
+  }
+  if (values["max-cycles"]) {
+    configService.setConfig({ maxAgentCycles: Number(values["max-cycles"]) });
+  }
+  if (values["token-budget"]) {
+    configService.setConfig({ tokenBudget: Number(values["token-budget"]) });
+  }
+  if (values["tool-use-mode"]) {
+    configService.setConfig({ toolUseMode: values["tool-use-mode"] as ToolUseMode });
+  }
+  if (values["history-compression"]) {
+    configService.setConfig({ historyCompression: values["history-compression"] as HistoryCompressionMode });
+  }
+
+  // Scenarios for the evaluation may have only the AWS responses
+  if (fixture && !fixture.responses.bedrock) {
+    console.error(
+      `The fixture ${values.fixture} has no recorded replies of the model, so it cannot be replayed. ` +
+      `Evaluate it with the stub model instead: npm run eval -- ${dirname(values.fixture!)} --model stub`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  // The replies of the model in the fixture are in the format of the tool use mode they were recorded with
+  const recordedToolUseMode = fixture?.config?.toolUseMode;
+  if (recordedToolUseMode && configService.getToolUseMode() !== recordedToolUseMode) {
+    console.error(
+      `The fixture ${values.fixture} has the replies of the model recorded in the ${recordedToolUseMode} tool use mode, ` +
+      `so it cannot be replayed with --tool-use-mode ${configService.getToolUseMode()}.`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const errorDescription = values.error ?? fixture?.input?.errorDescription;
+  const startDate = values.start ?? fixture?.input?.startDate;
+  const endDate = values.end ?? fixture?.input?.endDate;
+  if (!errorDescription || !startDate || !endDate) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const timezone = values.timezone ?? fixture?.input?.timezone;
+  const input = { errorDescription, startDate, endDate, ...(timezone ? { timezone } : {}) };
+  const metadata = createRecordingMetadata(input, configService);
+  let printedHistoryLength = 0;
+
+  print("Error description", `${errorDescription}\n(${startDate} - ${endDate})`);
+
+  const sessionStore = values["session-dir"] ? new FileSessionStore(values["session-dir"]) : new InMemorySessionStore();
+  const { sessionId, state, finalAnswer } = await runAgent(input, {
+    sessionStore,
+    configService,
+    onStep: (currentState) => {
+      // Actions decided in the thinking step
+      if (currentState.state === ReactionState.ACTING && currentState.lastActions) {
+        print(`Thought (cycle ${currentState.cycleCount + 1})`, currentState.lastThinking ?? "");
+        if (currentState.hypotheses && currentState.hypotheses.length > 0) {
+          print("Hypotheses", currentState.hypotheses
+            .map(hypothesis => `[${hypothesis.status}] ${hypothesis.id}: ${hypothesis.description}` +
+              (hypothesis.evidenceIds.length > 0 ? ` (${hypothesis.evidenceIds.join(", ")})` : ""))
+            .join("\n"));
+        }
+        for (const action of currentState.lastActions) {
+          print("Action", `${action.tool} ${JSON.stringify(action.parameters)}`);
+        }
+      }
+
+      // Observations and retries recorded in the history
+      for (const item of currentState.history.slice(printedHistoryLength)) {
+        if (item.cycle === undefined) {
+          print("Thought", item.thinking);
+        }
+        print("Observation", item.observation);
+      }
+      printedHistoryLength = currentState.history.length;
+    }
+  });
+
+  print("Final answer", finalAnswer ?? "");
+  if (state.tokenUsage) {
+    const i18n = new I18nProvider(configService.getLanguage() as Language);
+    print("Token usage", describeTokenUsage(state.tokenUsage, i18n, configService.getModelPricing()));
+  }
+
+  if (recorder && values.record) {
+    const calls = recorder.takeCalls();
+    await sessionStore.saveSessionRecording(sessionId, calls, metadata);
+    const bundle = createSessionBundle(sessionId, metadata, calls, state);
+    writeFileSync(values.record, JSON.stringify(bundle, null, 2));
+    console.log(`\nSession bundle of ${sessionId} saved to ${values.record}`);
+  }
+
+  // Unused responses usually mean that the agent took a different path from the recorded run
+  const remaining = replayer?.getRemainingCounts() ?? {};
+  if (Object.keys(remaining).length > 0) {
+    console.warn("\nRecorded responses not replayed:", remaining);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
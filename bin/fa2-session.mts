@@ -0,0 +1,120 @@
+/**
+ * Export and replay of recorded sessions
+ *
+ * Usage:
+ *   npm run session -- export <sessionId> --output bundles/<name>.json
+ *   npm run session -- replay bundles/*.json
+ */
+import { readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import { logger } from "../lambda/lib/logger.js";
+import { ConfigurationService } from "../lambda/lib/configuration-service.js";
+import { DynamoDBSessionStore, FileSessionStore } from "../lambda/lib/session-store/index.js";
+import { SessionBundle, createSessionBundle } from "../lambda/lib/session-recording.js";
+import { ReplayDifference, replaySessionBundle } from "../lambda/lib/local/session-replay.js";
+
+const USAGE = `Usage: npm run session -- <command> [options]
+
+Commands:
+  export <sessionId>      Export a session recorded by the Lambda function (sessionRecording: true) as a bundle.
+                          Reads the session table set in SESSION_TABLE_NAME.
+    --output <path>       Output file (default: <sessionId>.json)
+    --session-dir <path>  Read a session saved by "npm run local -- --record <path> --session-dir <path>" instead
+
+  replay <bundle>...      Replay the bundles through the agent with the recorded responses and report the differences.
+                          Exits with 1 when the actions, observations or final answer changed.
+    --strict              Also fail when the requests to the model changed (e.g. by prompt changes)
+    --verbose             Show the application logs`;
+
+const formatDifference = (difference: ReplayDifference) => {
+  const position = [
+    difference.index !== undefined ? `#${difference.index}` : "",
+    difference.line !== undefined ? `line ${difference.line}` : ""
+  ].filter(Boolean).join(" ");
+  return `  ${difference.kind} ${position}\n    recorded: ${difference.recorded}\n    replayed: ${difference.replayed}`;
+};
+
+const exportSession = async (sessionId: string, output?: string, sessionDirectory?: string) => {
+  const sessionStore = sessionDirectory
+    ? new FileSessionStore(sessionDirectory)
+    : new DynamoDBSessionStore(ConfigurationService.getInstance().getSessionTableName());
+  const [state, recording] = await Promise.all([
+    sessionStore.getSessionState(sessionId),
+    sessionStore.getSessionRecording(sessionId)
+  ]);
+  if (!state || !recording) {
+    throw new Error(`Recorded session ${sessionId} was not found`);
+  }
+
+  const bundle = createSessionBundle(sessionId, recording.metadata, recording.calls, state);
+  const path = output ?? `${sessionId}.json`;
+  writeFileSync(path, JSON.stringify(bundle, null, 2));
+  console.log(`Session bundle saved to ${path} (${bundle.calls.length} calls, ${bundle.history.length} history items)`);
+};
+
+const replay = async (paths: string[], strict: boolean) => {
+  let failed = 0;
+
+  for (const path of paths) {
+    const bundle = JSON.parse(readFileSync(path, "utf-8")) as SessionBundle;
+    const result = await replaySessionBundle(bundle);
+
+    const unusedCalls = Object.entries(result.unusedCalls);
+    const ok = !result.error
+      && result.differences.length === 0
+      && unusedCalls.length === 0
+      && (!strict || result.modelRequestChanges.length === 0);
+    if (!ok) {
+      failed++;
+    }
+
+    console.log(`${ok ? "PASS" : "FAIL"} ${path}`);
+    if (result.error) {
+      console.log(`  error: ${result.error}`);
+    }
+    result.differences.forEach(difference => console.log(formatDifference(difference)));
+    if (unusedCalls.length > 0) {
+      console.log(`  recorded calls not replayed: ${unusedCalls.map(([key, count]) => `${key} x${count}`).join(", ")}`);
+    }
+    if (result.modelRequestChanges.length > 0) {
+      console.log(`  ${result.modelRequestChanges.length} model request(s) changed`);
+      result.modelRequestChanges.forEach(change => console.log(formatDifference(change)));
+    }
+  }
+
+  console.log(`\n${paths.length - failed}/${paths.length} bundles passed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: "string" },
+      "session-dir": { type: "string" },
+      strict: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+  const [command, ...args] = positionals;
+
+  // Application logs are JSON lines for CloudWatch Logs, only errors are shown by default
+  logger.setLogLevel(values.verbose ? "INFO" : "ERROR");
+
+  if (command === "export" && args.length === 1) {
+    await exportSession(args[0], values.output, values["session-dir"]);
+  } else if (command === "replay" && args.length > 0) {
+    await replay(args, values.strict);
+  } else {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -5,17 +5,25 @@ import { Prompt } from "../../lib/prompt.js";
 import { MessageClient } from "../../lib/messaging/message-client.js";
 import { Language } from "../../../parameter.js";
 import { logger } from "../../lib/logger.js"; 
-import { ReActAgent } from "../../lib/react-agent.js";
+import { ReActAgent, ReactionState, SessionState, SessionStatus } from "../../lib/react-agent.js";
+import { collectCitedEvidence, findReportCitations, findReportCitingTexts } from "../../lib/analysis-report.js";
 import { ToolRegistry } from "../../lib/tools-registry.js";
 import { registerAllTools } from "../../lib/tool-executors/index.js";
-import { getSessionState, saveSessionState, completeSession } from "../../lib/session-manager.js";
+import { SessionStore, SessionConflictError, DynamoDBSessionStore } from "../../lib/session-store/index.js";
 import { AWSServiceFactory } from "../../lib/aws/aws-service-factory.js";
+import { SessionRecorder, createRecordingServices } from "../../lib/aws/fixtures/recording-services.js";
+import { createRecordingMetadata } from "../../lib/session-recording.js";
 import { I18nProvider } from "../../lib/messaging/providers/i18n-provider.js";
 import { setI18nProvider } from "../../lib/messaging/providers/i18n-factory.js";
 import { GenericTemplateProvider } from "../../lib/messaging/templates/generic-template-provider.js";
+import { SessionAction, SessionActionValue } from "../../lib/messaging/interfaces/template-provider.interface.js";
 import { ConfigProvider } from "../../lib/messaging/providers/config-provider.js";
 import { SlackTemplateConverter } from "../../lib/messaging/platforms/slack/slack-template-converter.js";
 import { ConfigurationService } from "../../lib/configuration-service.js";
+import { formatInTimezone, resolveTimezone } from "../../lib/timezone.js";
+import { describeTokenUsage } from "../../lib/token-usage.js";
+import { createHistoryCompressionStrategy } from "../../lib/history-compression.js";
+import { DynamoDBToolResultStore, SharedToolResultStore, createToolResultCache } from "../../lib/tool-result-cache.js";
 
 // Initialize configuration service
 const configService = ConfigurationService.getInstance();
@@ -35,6 +43,8 @@ let i18n: I18nProvider;
 let messageClient: MessageClient;
 let templateProvider: GenericTemplateProvider;
 let templateConverter: SlackTemplateConverter;
+let sessionRecorder: SessionRecorder | null = null;
+let sharedToolResultStore: SharedToolResultStore | undefined;
 
 if (isInitialized) {
   try {
@@ -49,20 +59,112 @@ if (isInitialized) {
     messageClient = new MessageClient(token!.toString(), lang);
     templateProvider = new GenericTemplateProvider(i18n, new ConfigProvider());
     templateConverter = new SlackTemplateConverter();
+    
+    // Record the calls of the AWS services and the model so that the session can be exported as a bundle
+    if (configService.isSessionRecordingEnabled()) {
+      sessionRecorder = new SessionRecorder();
+      AWSServiceFactory.setServices(createRecordingServices(sessionRecorder));
+    }
+    
+    // Share the tool results with the concurrent sessions of the same time range
+    // Not used while recording, since the calls of a result shared by another session are not recorded
+    const sessionTableName = configService.getSessionTableName();
+    if (configService.getSharedToolResultCacheTtl() && sessionTableName && !sessionRecorder) {
+      sharedToolResultStore = new DynamoDBToolResultStore(sessionTableName);
+    }
   } catch (error) {
     logger.error("Failed to initialize global resources", { error });
     // ここでは例外をスローせず、ログに記録するだけ
   }
 }
 
-export const handler: Handler = async (event: {
+// Send message with the buttons to cancel, resume or rerun the session to Slack
+const sendSessionActionsMessage = async (
+  message: string,
+  actions: SessionAction[],
+  session: SessionActionValue,
+  channelId: string,
+  threadTs: string
+) => {
+  const blocks = templateProvider.createSessionActionsTemplate(message, actions, session).blocks;
+  
+  // Convert MessageBlock[] to KnownBlock[]
+  const knownBlocks = templateConverter.convertMessageTemplate({ blocks });
+  
+  await messageClient.sendMessage(
+    knownBlocks,
+    channelId, 
+    threadTs
+  );
+};
+
+// Send error message and retry guidance to Slack
+// When the session was saved, it can be resumed from the last step or rerun by the buttons
+const sendAnalysisErrorMessage = async (channelId: string, threadTs: string, session?: SessionActionValue) => {
+  // Send error message
+  await messageClient.sendMessage(
+    messageClient.createErrorMessageBlock(),
+    channelId, 
+    threadTs
+  );
+  
+  if (session) {
+    await sendSessionActionsMessage(i18n.translate("analysisResumeMessage"), ["resume", "rerun"], session, channelId, threadTs);
+    return;
+  }
+  
+  // Send retry guidance message
+  const errorBlocks = templateProvider.createMessageTemplate(
+    i18n.translate("analysisErrorMessage")
+  ).blocks;
+  
+  // Convert MessageBlock[] to KnownBlock[]
+  const knownBlocks = templateConverter.convertMessageTemplate({ blocks: errorBlocks });
+  
+  await messageClient.sendMessage(
+    knownBlocks,
+    channelId, 
+    threadTs
+  );
+};
+
+// Mark the session as failed so that it can be resumed. Returns false when the session was not saved yet
+const markSessionFailed = async (sessionStore: SessionStore, sessionId: string): Promise<boolean> => {
+  try {
+    await sessionStore.updateSessionStatus(sessionId, SessionStatus.FAILED);
+    return true;
+  } catch (error) {
+    logger.warn("Failed to mark session as failed", { sessionId, error });
+    return false;
+  }
+};
+
+type AnalysisEvent = {
   errorDescription: string;
   startDate: string;
   endDate: string;
+  timezone?: string; // Timezone of the user who requested the analysis (the configured timezone if omitted)
   channelId?: string;
   threadTs?: string;
   sessionId?: string; 
-}) => {
+  step?: number; // Sequence number of the step, which is the session version when the step starts (0 for a new session)
+  maxAgentCycles?: number; // Maximum cycles of a new session (set when the analysis is rerun with more cycles)
+  followUpQuestion?: string | null; // Question replied in the thread to continue the completed session
+  failure?: { Error?: string; Cause?: string }; // Set by the failure branch of the state machine
+};
+
+// Result of an invocation skipped as a duplicate, so that the state machine continues from the saved session
+// A cancelled or failed session is done for the state machine
+const createSkippedResult = (sessionId: string, sessionState: SessionState | null) => ({
+  sessionId,
+  isDone: sessionState?.state === ReactionState.COMPLETED
+    || sessionState?.status === SessionStatus.CANCELLED
+    || sessionState?.status === SessionStatus.FAILED,
+  step: sessionState?.version ?? 0
+});
+
+// The session store is injected so that the handler can run without DynamoDB in tests and local runs
+export const createHandler = (sessionStore: SessionStore): Handler<AnalysisEvent> => async (event) => {
   // 初期化状態を確認
   if (!isInitialized) {
     logger.error("Handler execution failed due to configuration error", { error });
@@ -82,24 +184,64 @@ export const handler: Handler = async (event: {
     endDate,
     channelId,
     threadTs,
-    sessionId: eventSessionId
+    sessionId: eventSessionId,
+    step = 0,
+    maxAgentCycles,
+    followUpQuestion,
+    failure
   } = event;
+  
+  // Timestamps in the messages and the tool outputs are shown in this timezone
+  const timezone = resolveTimezone(event.timezone, configService.getTimezone());
+  
+  // In Step Functions mode, the state machine drives the loop instead of self invocation
+  const isStepFunctionsMode = configService.getOrchestrationMode() === "stepfunctions";
+  
+  // The state machine notifies the failed or timed out analysis
+  if (failure) {
+    logger.error("Analysis failed in state machine", { sessionId: eventSessionId, failure });
+    const isSessionSaved = !!eventSessionId && await markSessionFailed(sessionStore, eventSessionId);
+    if (channelId && threadTs) {
+      await sendAnalysisErrorMessage(
+        channelId,
+        threadTs,
+        isSessionSaved ? { sessionId: eventSessionId!, startDate, endDate } : undefined
+      );
+    }
+    return;
+  }
+
+  // Discard the calls left by a failed invocation in the same container
+  sessionRecorder?.takeCalls();
+
+  // Generate or get session ID
+  const sessionId = eventSessionId || uuidv4();
+  // Value of the buttons to operate this session from Slack
+  const sessionActionValue: SessionActionValue = { sessionId, startDate, endDate };
+  // Set when the next step was invoked or the session was completed, after which the analysis does not depend on this invocation
+  let isHandedOver = false;
 
   try {
-    // Generate or get session ID
-    const sessionId = eventSessionId || uuidv4();
-    
     // Initialize prompt
     const architectureDescription = configService.getArchitectureDescription();
-    const prompt = new Prompt(lang, architectureDescription);
+    const prompt = new Prompt(lang, architectureDescription, i18n, timezone, {
+      startDate,
+      endDate,
+      maxLookbackMinutes: configService.getMaxLookbackMinutes()
+    });
     
     // Initialize tool registry
-    const toolRegistry = new ToolRegistry();
-    registerAllTools(
+    const toolRegistry = new ToolRegistry(
+      configService.getToolExecutionLimits(),
+      i18n,
+      createToolResultCache({ startDate, endDate, timezone, language: lang }, configService, sharedToolResultStore)
+    );
+    await registerAllTools(
       toolRegistry, 
       {
         startDate,
-        endDate
+        endDate,
+        timezone
       },
       i18n, // Pass i18n instance to registerAllTools
       configService // Pass configService to registerAllTools
@@ -111,41 +253,112 @@ export const handler: Handler = async (event: {
       errorDescription,
       toolRegistry,
       prompt,
-      { maxAgentCycles: configService.getMaxAgentCycles() }
+      {
+        // Restored from the session state for an existing session
+        maxAgentCycles: maxAgentCycles ?? configService.getMaxAgentCycles(),
+        toolUseMode: configService.getToolUseMode(),
+        budget: configService.getUsageBudget(),
+        historyCompression: createHistoryCompressionStrategy(prompt, configService)
+      }
     );
     
     // Get session state (null for new session)
-    const sessionState = await getSessionState(sessionId, configService);
+    const sessionState = await sessionStore.getSessionState(sessionId);
+    
+    // Lambda retries a failed asynchronous invocation and the state machine retries a failed task,
+    // so the step may have been executed already. Only the invocation for the saved version executes the step
+    const version = sessionState?.version ?? 0;
+    if (step !== version) {
+      logger.warn("Skipping duplicate or out-of-order invocation", { sessionId, step, version });
+      return createSkippedResult(sessionId, sessionState);
+    }
     
     // For new session
     if (!sessionState) {
-      // Send progress to Slack
-      const startBlocks = templateProvider.createMessageTemplate(
-        i18n.translate("analysisStartMessage")
-      ).blocks;
+      // Map the thread to the session so that follow-up questions in the thread continue this session
+      if (channelId && threadTs) {
+        await sessionStore.saveThreadSession(channelId, threadTs, { sessionId, startDate, endDate });
+      }
       
-      // Convert MessageBlock[] to KnownBlock[]
-      const knownBlocks = templateConverter.convertMessageTemplate({ blocks: startBlocks });
-      
-      await messageClient.sendMessage(
-        knownBlocks,
-        channelId!, 
+      // Send progress to Slack with the button to cancel the analysis
+      const timeRange = i18n.formatTranslation(
+        "analysisTimeRangeMessage",
+        formatInTimezone(startDate, timezone),
+        formatInTimezone(endDate, timezone)
+      );
+      await sendSessionActionsMessage(
+        `${i18n.translate("analysisStartMessage")}\n${timeRange}`,
+        ["cancel"],
+        sessionActionValue,
+        channelId!,
         threadTs!
       );
     } else {
       // Set existing session state to ReActAgent
       reactAgent.setSessionState(sessionState);
+      
+      // Continue the completed session with the follow-up question.
+      // The question is ignored in the following steps, which are not completed yet
+      if (followUpQuestion && sessionState.state === ReactionState.COMPLETED) {
+        reactAgent.continueWithFollowUp(followUpQuestion, configService.getMaxAgentCycles());
+        await sendSessionActionsMessage(
+          i18n.translate("followUpStartMessage"),
+          ["cancel"],
+          sessionActionValue,
+          channelId!,
+          threadTs!
+        );
+      }
     }
     
     // Execute one step (considering Lambda execution time)
     const stepResult = await reactAgent.executeStep();
     
-    // Save session state
-    await saveSessionState(sessionId, reactAgent.getSessionState(), configService);
+    // The session was cancelled or failed, and nothing was executed
+    if (stepResult.stopped) {
+      return createSkippedResult(sessionId, sessionState);
+    }
+    
+    // Save session state. When another invocation of the same step saved first, discard the result of this one
+    let nextStep: number;
+    try {
+      nextStep = await sessionStore.saveSessionState(sessionId, reactAgent.getSessionState());
+    } catch (error) {
+      if (error instanceof SessionConflictError) {
+        logger.warn("Skipping invocation which conflicted with another invocation", { sessionId, step });
+        return createSkippedResult(sessionId, await sessionStore.getSessionState(sessionId));
+      }
+      throw error;
+    }
+    
+    // Save the calls of this step. Failure of recording does not stop the analysis
+    if (sessionRecorder) {
+      try {
+        const metadata = sessionState ? undefined : createRecordingMetadata({ errorDescription, startDate, endDate, timezone }, configService);
+        await sessionStore.saveSessionRecording(sessionId, sessionRecorder.takeCalls(), metadata);
+      } catch (error) {
+        logger.warn("Failed to save session recording", { sessionId, error });
+      }
+    }
     
     if (stepResult.isDone) {
       // Send final answer to Slack
-      const finalAnswer = stepResult.finalAnswer || "分析が完了しましたが、結果を生成できませんでした。";
+      const finalAnswer = stepResult.finalAnswer || i18n.translate("analysisNoFinalAnswerMessage");
+      
+      // Summary of the structured report. The Markdown snippet has the full report, or the raw answer when it was not valid
+      if (stepResult.report) {
+        const citedEvidence = collectCitedEvidence(
+          findReportCitations(stepResult.report),
+          reactAgent.getSessionState().history,
+          findReportCitingTexts(stepResult.report)
+        );
+        const reportBlocks = templateProvider.createAnalysisReportTemplate(stepResult.report, citedEvidence).blocks;
+        await messageClient.sendMessage(
+          templateConverter.convertMessageTemplate({ blocks: reportBlocks }),
+          channelId!,
+          threadTs!
+        );
+      }
       
       // Convert markdown text to rich text
       await messageClient.sendMarkdownSnippet(
@@ -156,36 +369,41 @@ export const handler: Handler = async (event: {
       );
       
       // Process session completion
-      await completeSession(sessionId, configService);
-      
-      // Analysis complete message
-      const completeBlocks = templateProvider.createMessageTemplate(
-        i18n.translate("analysisCompleteMessage")
-      ).blocks;
-      
-      // Convert MessageBlock[] to KnownBlock[]
-      const knownBlocks = templateConverter.convertMessageTemplate({ blocks: completeBlocks });
+      await sessionStore.completeSession(sessionId);
+      isHandedOver = true;
       
-      await messageClient.sendMessage(
-        knownBlocks,
-        channelId!, 
+      // Analysis complete message with the tokens consumed by the session and the button to rerun the analysis with more cycles
+      const tokenUsage = reactAgent.getSessionState().tokenUsage;
+      logger.info("Analysis completed", { sessionId, tokenUsage });
+      await sendSessionActionsMessage(
+        tokenUsage
+          ? `${i18n.translate("analysisCompleteMessage")}\n${describeTokenUsage(tokenUsage, i18n, configService.getModelPricing())}`
+          : i18n.translate("analysisCompleteMessage"),
+        ["rerun"],
+        sessionActionValue,
+        channelId!,
         threadTs!
       );
     } else {
-      // Call Lambda again to execute next step
-      const lambdaFunctionName = configService.getLambdaFunctionName()!;
-      const payload = JSON.stringify({
-        errorDescription,
-        startDate,
-        endDate,
-        channelId,
-        threadTs,
-        sessionId
-      });
-      
-      // Invoke Lambda asynchronously
-      const lambdaService = AWSServiceFactory.getLambdaService();
-      lambdaService.invokeAsyncLambdaFunc(payload, lambdaFunctionName);
+      if (!isStepFunctionsMode) {
+        // Call Lambda again to execute next step
+        const lambdaFunctionName = configService.getLambdaFunctionName()!;
+        const payload = JSON.stringify({
+          errorDescription,
+          startDate,
+          endDate,
+          timezone,
+          channelId,
+          threadTs,
+          sessionId,
+          step: nextStep
+        });
+        
+        // Invoke Lambda asynchronously
+        const lambdaService = AWSServiceFactory.getLambdaService();
+        await lambdaService.invokeAsyncLambdaFunc(payload, lambdaFunctionName);
+      }
+      isHandedOver = true;
       
       // Send progress to Slack
       // Get current state of ReActAgent
@@ -206,31 +424,31 @@ export const handler: Handler = async (event: {
         threadTs!
       );
     }
+    
+    // The state machine decides whether to continue the loop with this result
+    return {
+      sessionId,
+      isDone: stepResult.isDone,
+      step: nextStep
+    };
   } catch (error) {
+    // The next step or the completed session is not affected by a failed Slack message of this step
+    if (isHandedOver) {
+      logger.warn("Failed to send the message after the step was handed over", { sessionId, error });
+      return isStepFunctionsMode ? createSkippedResult(sessionId, await sessionStore.getSessionState(sessionId)) : undefined;
+    }
     logger.error("Something happened", error as Error);
+    // In Step Functions mode, the state machine retries the step and notifies the failure
+    if (isStepFunctionsMode) {
+      throw error;
+    }
     // Send form on error
+    const isSessionSaved = await markSessionFailed(sessionStore, sessionId);
     if(channelId && threadTs){
-      // Send error message
-      await messageClient.sendMessage(
-        messageClient.createErrorMessageBlock(),
-        channelId, 
-        threadTs
-      );
-      
-      // Send retry guidance message
-      const errorBlocks = templateProvider.createMessageTemplate(
-        i18n.translate("analysisErrorMessage")
-      ).blocks;
-      
-      // Convert MessageBlock[] to KnownBlock[]
-      const knownBlocks = templateConverter.convertMessageTemplate({ blocks: errorBlocks });
-      
-      await messageClient.sendMessage(
-        knownBlocks,
-        channelId, 
-        threadTs
-      );
+      await sendAnalysisErrorMessage(channelId, threadTs, isSessionSaved ? sessionActionValue : undefined);
     }
   }
   return;
 };
+
+export const handler = createHandler(new DynamoDBSessionStore(configService.getSessionTableName()));
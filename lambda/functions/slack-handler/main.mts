@@ -3,16 +3,20 @@ import {
   APIGatewayProxyEvent,
   Context,
 } from "aws-lambda";
-import { App, AwsLambdaReceiver, BlockAction, RespondArguments, SayArguments } from "@slack/bolt";
+import { App, AwsLambdaReceiver, BlockAction, BlockButtonAction, RespondArguments, SayArguments } from "@slack/bolt";
 import { getSecret } from "@aws-lambda-powertools/parameters/secrets";
-import { format, sub } from "date-fns";
-import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import { randomUUID } from "crypto";
+import { sub } from "date-fns";
 import { MessageClient } from "../../lib/messaging/message-client.js";
 import { AWSServiceFactory } from "../../lib/aws/aws-service-factory.js";
 import { Language } from "../../../parameter.js";
 import { logger } from "../../lib/logger.js";
 import { getI18nProvider } from "../../lib/messaging/providers/i18n-factory.js";
+import { SessionActionValue } from "../../lib/messaging/interfaces/template-provider.interface.js";
 import { ConfigurationService } from "../../lib/configuration-service.js";
+import { DynamoDBSessionStore, SessionConflictError } from "../../lib/session-store/index.js";
+import { createInitialSessionState, ReactionState, SessionStatus } from "../../lib/react-agent.js";
+import { formatInTimezone, resolveTimezone, zonedDateTimeToUtc } from "../../lib/timezone.js";
 
 // Initialize configuration service
 const configService = ConfigurationService.getInstance();
@@ -26,12 +30,8 @@ if (!isInitialized) {
 // handlerで使用する変数のみグローバルスコープで宣言
 let awsLambdaReceiver: AwsLambdaReceiver | undefined;
 
-// Utility method
-const convertJSTToUTC = (date: string, time: string): string => {
-  const japanDate = new Date(`${date}T${time}`);
-  const internationalTime = fromZonedTime(japanDate, "Asia/Tokyo");
-  return internationalTime.toISOString();
-};
+// Cycles added to the previous maximum when the analysis is rerun
+const RERUN_EXTRA_CYCLES = 5;
 
 if (isInitialized) {
   try {
@@ -43,6 +43,8 @@ if (isInitialized) {
     const slackAppTokenKey = configService.getSlackAppTokenKey();
     const slackSigningSecretKey = configService.getSlackSigningSecretKey()!;
     const lambdaService = AWSServiceFactory.getLambdaService();
+    const stepFunctionsService = AWSServiceFactory.getStepFunctionsService();
+    const sessionStore = new DynamoDBSessionStore(configService.getSessionTableName());
     
     // Slack Credentials
     const token = await getSecret(slackAppTokenKey);
@@ -70,17 +72,112 @@ if (isInitialized) {
     const messageClient = new MessageClient(token, lang, 'slack');
     const i18n = getI18nProvider(lang);
     
+    // Start the analysis of the session from the step.
+    // Step 0 starts a new session, and a larger step resumes the saved session or continues it with a follow-up question.
+    const startAnalysis = async (analysisInput: {
+      errorDescription: string | null | undefined;
+      startDate: string;
+      endDate: string;
+      timezone: string;
+      channelId?: string;
+      threadTs?: string;
+      sessionId: string;
+      step: number;
+      maxAgentCycles?: number;
+      followUpQuestion?: string;
+    }) => {
+      if (configService.getOrchestrationMode() === "stepfunctions") {
+        // Start the state machine which drives the ReAct loop.
+        // Session ID is also used as the execution name to find the execution of the analysis.
+        await stepFunctionsService.startExecution(
+          configService.getStateMachineArn()!,
+          JSON.stringify({ maxAgentCycles: configService.getMaxAgentCycles(), followUpQuestion: null, ...analysisInput }),
+          analysisInput.step === 0 ? analysisInput.sessionId : `${analysisInput.sessionId}-${analysisInput.step}`
+        );
+      } else {
+        // Invoke backend lambda
+        const res = await lambdaService.invokeAsyncLambdaFunc(
+          JSON.stringify(analysisInput),
+          funcName
+        );
+
+        if (res.StatusCode! >= 400) {
+          throw new Error("Failed to invoke lambda function");
+        }
+      }
+    };
+    
+    // Timezone of the Slack user, or the configured timezone when the detection is disabled or the profile has no timezone
+    const getUserTimezone = async (userId: string | undefined): Promise<string> => {
+      if (!configService.isUserTimezoneDetectionEnabled() || !userId) {
+        return configService.getTimezone();
+      }
+      try {
+        const res = await app.client.users.info({ user: userId });
+        return resolveTimezone(res.user?.tz, configService.getTimezone());
+      } catch (error) {
+        logger.warn("Failed to get the timezone of the Slack user", { userId, error });
+        return configService.getTimezone();
+      }
+    };
+    
+    // Form to enter the time range, which defaults to the current time in the timezone
+    const createFormBlock = (timezone: string) => {
+      const now = new Date();
+      return messageClient.createFormBlock(formatInTimezone(now, timezone, "yyyy-MM-dd"), formatInTimezone(now, timezone, "HH:mm"));
+    };
+    
+    // Get the session of the clicked button with the thread of the message
+    const getSessionAction = (body: BlockButtonAction) => ({
+      ...JSON.parse(body.actions[0].value!) as SessionActionValue,
+      channelId: body.channel?.id,
+      threadTs: body.message?.thread_ts ?? body.message?.ts
+    });
+    
     // When app receive an alarm from AWS Chatbot, send the form of FA2.
+    // When a user replies in the thread of a completed analysis, continue the analysis with the question.
     app.message("", async ({ event, body, payload, say }) => {
       logger.info("message", {event: event, payload: payload, body: body});
 
+      if (event.subtype === undefined && event.thread_ts && !event.bot_id && event.text) {
+        try {
+          const threadSession = await sessionStore.getThreadSession(event.channel, event.thread_ts);
+          const sessionState = threadSession ? await sessionStore.getSessionState(threadSession.sessionId) : null;
+          // Not a thread of an analysis
+          if (!threadSession || !sessionState) {
+            return;
+          }
+
+          if (sessionState.state !== ReactionState.COMPLETED || (sessionState.status && sessionState.status !== SessionStatus.RUNNING)) {
+            await say({ text: i18n.translate("followUpNotCompleted"), thread_ts: event.thread_ts } as SayArguments);
+            return;
+          }
+
+          await startAnalysis({
+            errorDescription: sessionState.context,
+            startDate: threadSession.startDate,
+            endDate: threadSession.endDate,
+            timezone: await getUserTimezone(event.user),
+            channelId: event.channel,
+            threadTs: event.thread_ts,
+            sessionId: threadSession.sessionId,
+            step: sessionState.version ?? 0,
+            followUpQuestion: event.text
+          });
+          await say({ text: i18n.translate("followUpAccepted"), thread_ts: event.thread_ts } as SayArguments);
+        } catch (error) {
+          logger.error("Something happened", error as Error);
+          await say({ blocks: messageClient.createErrorMessageBlock(), thread_ts: event.thread_ts } as SayArguments);
+        }
+        return;
+      }
+
       // This ID is for AWS Chatbot app.
       // FA2 will return the form, when AWS Chatbot sent a message.
       // Please modify the condition by your environment.
       if ("app_id" in event && event.app_id === "A6L22LZNH") {
-        const now = toZonedTime(new Date(), "Asia/Tokyo");
         const res = await say({
-          blocks: messageClient.createFormBlock(format(now, "yyyy-MM-dd"), format(now, "HH:mm")),
+          blocks: createFormBlock(configService.getTimezone()),
           reply_broadcast: true
         } as SayArguments);
         logger.info('response', {response: res});
@@ -92,9 +189,8 @@ if (isInitialized) {
       await ack();
       logger.info("/fa2 command", {body})
 
-      const now = toZonedTime(new Date(), "Asia/Tokyo");
       const res = await say({
-        blocks: messageClient.createFormBlock(format(now, "yyyy-MM-dd"), format(now, "HH:mm")),
+        blocks: createFormBlock(await getUserTimezone(body.user_id)),
         reply_broadcast: true
       } as SayArguments);
       logger.info('response', {response: res});
@@ -123,26 +219,23 @@ if (isInitialized) {
           throw new Error("Date or Time is not set.");
         }
 
-        // Invoke backend lambda
-        const res = await lambdaService.invokeAsyncLambdaFunc(
-          JSON.stringify({
-            errorDescription,
-            startDate: convertJSTToUTC(startDate, startTime),
-            endDate: convertJSTToUTC(endDate, endTime),
-            channelId: payload.channel?.id,
-            threadTs: payload.message?.ts
-          }),
-          funcName
-        );
-
-        if (res.StatusCode! >= 400) {
-          throw new Error("Failed to invoke lambda function");
-        }
+        // The time range is entered in the timezone of the user who submitted the form
+        const timezone = await getUserTimezone(payload.user.id);
+        await startAnalysis({
+          errorDescription,
+          startDate: zonedDateTimeToUtc(startDate, startTime, timezone),
+          endDate: zonedDateTimeToUtc(endDate, endTime, timezone),
+          timezone,
+          channelId: payload.channel?.id,
+          threadTs: payload.message?.ts,
+          sessionId: randomUUID(),
+          step: 0
+        });
 
         // Send the message to notify the completion of receiving request.
         await respond({
           blocks: messageClient.createMessageBlock(
-            `${i18n.translate("requestAccepted")}\n${i18n.translate("requestParameters")}\`\`\`${JSON.stringify({errorDescription, startDate, startTime, endDate, endTime})}\`\`\` `
+            `${i18n.translate("requestAccepted")}\n${i18n.translate("requestParameters")}\`\`\`${JSON.stringify({errorDescription, startDate, startTime, endDate, endTime, timezone})}\`\`\` `
           ),
           replace_original: true,
         } as RespondArguments);
@@ -157,6 +250,135 @@ if (isInitialized) {
       return;
     });
 
+    // Cancel the running analysis. The step being executed is discarded and the next step is not executed
+    app.action<BlockButtonAction>("cancel_session", async ({ body, ack, respond }) => {
+      await ack();
+      logger.info("cancel_session action", {body})
+
+      try {
+        const { sessionId } = getSessionAction(body);
+        let sessionState = await sessionStore.getSessionState(sessionId);
+        if (!sessionState) {
+          // The button is posted before the first step is saved.
+          // Save the session as cancelled, so that the first step cannot be saved and is discarded
+          try {
+            await sessionStore.saveSessionState(sessionId, { ...createInitialSessionState(""), status: SessionStatus.CANCELLED });
+            await respond({
+              blocks: messageClient.createMessageBlock(i18n.formatTranslation("sessionCancelled", body.user.id)),
+              replace_original: true,
+            } as RespondArguments);
+            return;
+          } catch (error) {
+            if (!(error instanceof SessionConflictError)) {
+              throw error;
+            }
+            // The first step was saved in the meantime
+            sessionState = await sessionStore.getSessionState(sessionId);
+          }
+        }
+        if (!sessionState) {
+          await respond({ text: i18n.translate("sessionNotFound"), replace_original: false } as RespondArguments);
+          return;
+        }
+        if (sessionState.state === ReactionState.COMPLETED || (sessionState.status && sessionState.status !== SessionStatus.RUNNING)) {
+          await respond({ text: i18n.translate("sessionNotRunning"), replace_original: false } as RespondArguments);
+          return;
+        }
+
+        await sessionStore.updateSessionStatus(sessionId, SessionStatus.CANCELLED);
+        await respond({
+          blocks: messageClient.createMessageBlock(i18n.formatTranslation("sessionCancelled", body.user.id)),
+          replace_original: true,
+        } as RespondArguments);
+      } catch (error) {
+        logger.error("Something happened", error as Error);
+        await respond({
+          blocks: messageClient.createErrorMessageBlock(),
+          replace_original: false,
+        } as RespondArguments);
+      }
+    });
+
+    // Resume the failed analysis from the last saved step
+    app.action<BlockButtonAction>("resume_session", async ({ body, ack, respond }) => {
+      await ack();
+      logger.info("resume_session action", {body})
+
+      try {
+        const { sessionId, startDate, endDate, channelId, threadTs } = getSessionAction(body);
+        const sessionState = await sessionStore.getSessionState(sessionId);
+        if (!sessionState) {
+          await respond({ text: i18n.translate("sessionNotFound"), replace_original: false } as RespondArguments);
+          return;
+        }
+        if (sessionState.status !== SessionStatus.FAILED) {
+          await respond({ text: i18n.translate("sessionNotResumable"), replace_original: false } as RespondArguments);
+          return;
+        }
+
+        // The new version is the step to execute, so that the steps queued before the failure are skipped
+        const step = await sessionStore.updateSessionStatus(sessionId, SessionStatus.RUNNING);
+        await startAnalysis({
+          errorDescription: sessionState.context,
+          startDate,
+          endDate,
+          timezone: await getUserTimezone(body.user.id),
+          channelId,
+          threadTs,
+          sessionId,
+          step
+        });
+        await respond({
+          blocks: messageClient.createMessageBlock(i18n.translate("sessionResumed")),
+          replace_original: true,
+        } as RespondArguments);
+      } catch (error) {
+        logger.error("Something happened", error as Error);
+        await respond({
+          blocks: messageClient.createErrorMessageBlock(),
+          replace_original: false,
+        } as RespondArguments);
+      }
+    });
+
+    // Rerun the analysis as a new session with more cycles than the previous one
+    app.action<BlockButtonAction>("rerun_session", async ({ body, ack, respond }) => {
+      await ack();
+      logger.info("rerun_session action", {body})
+
+      try {
+        const { sessionId, startDate, endDate, channelId, threadTs } = getSessionAction(body);
+        const sessionState = await sessionStore.getSessionState(sessionId);
+        if (!sessionState) {
+          await respond({ text: i18n.translate("sessionNotFound"), replace_original: false } as RespondArguments);
+          return;
+        }
+
+        const maxAgentCycles = (sessionState.maxAgentCycles ?? configService.getMaxAgentCycles()) + RERUN_EXTRA_CYCLES;
+        await startAnalysis({
+          errorDescription: sessionState.context,
+          startDate,
+          endDate,
+          timezone: await getUserTimezone(body.user.id),
+          channelId,
+          threadTs,
+          sessionId: randomUUID(),
+          step: 0,
+          maxAgentCycles
+        });
+        await respond({
+          blocks: messageClient.createMessageBlock(i18n.formatTranslation("sessionRerun", maxAgentCycles)),
+          replace_original: true,
+        } as RespondArguments);
+      } catch (error) {
+        logger.error("Something happened", error as Error);
+        await respond({
+          blocks: messageClient.createErrorMessageBlock(),
+          replace_original: false,
+        } as RespondArguments);
+      }
+    });
+
     app.command('/insight', async ({ client, body, ack, respond }) => {
       // Ack the request of insight command
       await ack();
@@ -207,10 +429,9 @@ if (isInitialized) {
       
       const duration = durationOption.value;
 
-      // Convert from duration to datetime
+      // Convert from duration to datetime. The duration is relative to now, which does not depend on the timezone
       const now = new Date();
-      const nowItnTime = fromZonedTime(now, "Asia/Tokyo");
-      const pastItnTime = fromZonedTime(sub(now,{days: Number(duration)}), "Asia/Tokyo");
+      const past = sub(now, {days: Number(duration)});
       
       // Get channel ID from private_metadata
       let channelId: string | undefined;
@@ -243,8 +464,8 @@ if (isInitialized) {
         const res = await lambdaService.invokeAsyncLambdaFunc(
           JSON.stringify({
             query: query,
-            startDate: pastItnTime.toISOString(),
-            endDate: nowItnTime.toISOString(),
+            startDate: past.toISOString(),
+            endDate: now.toISOString(),
             channelId: channelId
           }),
           metricsInsightFunction
@@ -0,0 +1,482 @@
+import { Language } from "../../parameter.js";
+import { HistoryItem } from "./react-agent.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+
+/**
+ * Level of the confidence and the severity
+ */
+export type ReportLevel = "high" | "medium" | "low";
+
+/**
+ * Evidence of a hypothesis found in the analysis history
+ */
+export interface EvidenceReference {
+  evidenceId: string; // Evidence ID of the history item which has the evidence (e.g. "E3")
+  description: string; // Quoted log line, metric value, etc.
+}
+
+/**
+ * Hypothesis of the root cause
+ */
+export interface RootCauseHypothesis {
+  description: string;
+  confidence: ReportLevel;
+  evidence: EvidenceReference[];
+}
+
+/**
+ * Event in the timeline of the failure
+ */
+export interface TimelineEvent {
+  time: string;
+  description: string;
+}
+
+/**
+ * Final report of the analysis, which the model writes as JSON
+ * Text fields cite the observations inline with their evidence IDs such as [E3]
+ */
+export interface AnalysisReport {
+  summary: string;
+  severity: ReportLevel;
+  impact: string;
+  rootCauses: RootCauseHypothesis[]; // Ordered by likelihood
+  timeline: TimelineEvent[];
+  remediation: string[];
+  prevention: string[];
+  missingData: string[];
+}
+
+/**
+ * Result of parsing the final answer
+ */
+export interface ReportParseResult {
+  report: AnalysisReport | null;
+  errors: string[]; // Reasons why the answer is not a valid report
+  warnings: string[]; // Problems fixed in the report, such as citations of evidence IDs not in the analysis history
+}
+
+/**
+ * Tool observation cited by the final answer, shown as a footnote
+ */
+export interface CitedEvidence {
+  evidenceId: string;
+  tool: string;
+  parameters: Record<string, unknown>;
+  cycle?: number; // Cycle of the observation, counted from 1 as shown to the user
+  excerpt: string; // Part of the observation around what the citing claims quote
+}
+
+const REPORT_LEVELS: ReportLevel[] = ["high", "medium", "low"];
+const CITATION_PATTERN = /\[(E\d+)\]/g;
+const MAX_EXCERPT_LENGTH = 300;
+// Terms of a claim looked up in the observation when the claim is not quoted as it is, such as error codes, resource names and values
+const CLAIM_TERM_PATTERN = /[\w:./-]{4,}/g;
+
+/**
+ * Parse and validate the final answer of the model as an analysis report
+ * @param text Final answer. A JSON object, optionally in a ```json code block
+ * @param knownEvidenceIds Evidence IDs in the analysis history. Citations of other IDs are removed from the report when given
+ * @returns Report, or the validation errors
+ */
+export function parseAnalysisReport(text: string, knownEvidenceIds?: string[]): ReportParseResult {
+  // Models often wrap JSON in a code block or add a sentence before it
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1];
+  const candidate = fenced ?? text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(candidate);
+  } catch (error) {
+    return { report: null, errors: [`Not a JSON object: ${(error as Error).message}`], warnings: [] };
+  }
+
+  const errors = validateAnalysisReport(value);
+  if (errors.length > 0) {
+    return { report: null, errors, warnings: [] };
+  }
+  // Models sometimes cite IDs that do not exist. Only those citations are removed, and the report is kept
+  return knownEvidenceIds
+    ? { ...removeUnknownCitations(value as AnalysisReport, knownEvidenceIds), errors }
+    : { report: value as AnalysisReport, errors, warnings: [] };
+}
+
+/**
+ * Remove the citations of evidence IDs which are not in the analysis history
+ * @param report Valid analysis report
+ * @param knownEvidenceIds Evidence IDs in the analysis history
+ * @returns Report without the unknown citations, and the removed citations
+ */
+export function removeUnknownCitations(
+  report: AnalysisReport,
+  knownEvidenceIds: string[]
+): { report: AnalysisReport; warnings: string[] } {
+  const warnings: string[] = [];
+  const removeCitations = (text: string, path: string): string =>
+    text.replace(/\s?\[(E\d+)\]/g, (citation, evidenceId: string) => {
+      if (knownEvidenceIds.includes(evidenceId)) {
+        return citation;
+      }
+      warnings.push(`${path} cites ${evidenceId}, which is not in the analysis history`);
+      return "";
+    });
+
+  return {
+    report: {
+      ...report,
+      summary: removeCitations(report.summary, "summary"),
+      impact: removeCitations(report.impact, "impact"),
+      rootCauses: report.rootCauses.map((rootCause, index) => ({
+        ...rootCause,
+        description: removeCitations(rootCause.description, `rootCauses[${index}].description`),
+        evidence: rootCause.evidence.filter((evidence, evidenceIndex) => {
+          if (knownEvidenceIds.includes(evidence.evidenceId)) {
+            return true;
+          }
+          warnings.push(`rootCauses[${index}].evidence[${evidenceIndex}] cites ${evidence.evidenceId}, which is not in the analysis history`);
+          return false;
+        }).map(evidence => ({ ...evidence, description: removeCitations(evidence.description, `rootCauses[${index}].evidence`) }))
+      })),
+      timeline: report.timeline.map((event, index) => ({
+        ...event,
+        description: removeCitations(event.description, `timeline[${index}].description`)
+      })),
+      remediation: report.remediation.map((item, index) => removeCitations(item, `remediation[${index}]`))
+    },
+    warnings
+  };
+}
+
+/**
+ * Validate the structure of a value as an analysis report
+ * @param value Parsed JSON
+ * @returns Validation errors (empty when valid)
+ */
+export function validateAnalysisReport(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return ["Report must be an object"];
+  }
+
+  const checkString = (object: Record<string, unknown>, key: string, path: string) => {
+    if (typeof object[key] !== "string" || (object[key] as string).trim() === "") {
+      errors.push(`${path}${key} must be a non-empty string`);
+    }
+  };
+  const checkLevel = (object: Record<string, unknown>, key: string, path: string) => {
+    if (!REPORT_LEVELS.includes(object[key] as ReportLevel)) {
+      errors.push(`${path}${key} must be one of ${REPORT_LEVELS.join(", ")}`);
+    }
+  };
+  const checkArray = (object: Record<string, unknown>, key: string, check: (item: unknown, path: string) => void) => {
+    if (!Array.isArray(object[key])) {
+      errors.push(`${key} must be an array`);
+      return;
+    }
+    (object[key] as unknown[]).forEach((item, index) => check(item, `${key}[${index}].`));
+  };
+  const checkStringItem = (item: unknown, path: string) => {
+    if (typeof item !== "string") {
+      errors.push(`${path.slice(0, -1)} must be a string`);
+    }
+  };
+
+  checkString(value, "summary", "");
+  checkLevel(value, "severity", "");
+  checkString(value, "impact", "");
+
+  checkArray(value, "rootCauses", (item, path) => {
+    if (!isObject(item)) {
+      errors.push(`${path.slice(0, -1)} must be an object`);
+      return;
+    }
+    checkString(item, "description", path);
+    checkLevel(item, "confidence", path);
+    if (!Array.isArray(item.evidence)) {
+      errors.push(`${path}evidence must be an array`);
+      return;
+    }
+    item.evidence.forEach((evidence: unknown, index: number) => {
+      const evidencePath = `${path}evidence[${index}].`;
+      if (!isObject(evidence)) {
+        errors.push(`${evidencePath.slice(0, -1)} must be an object`);
+        return;
+      }
+      if (typeof evidence.evidenceId !== "string" || !/^E\d+$/.test(evidence.evidenceId)) {
+        errors.push(`${evidencePath}evidenceId must be an evidence ID such as E1`);
+      }
+      checkString(evidence, "description", evidencePath);
+    });
+  });
+  if (Array.isArray(value.rootCauses) && value.rootCauses.length === 0) {
+    errors.push("rootCauses must have at least one hypothesis");
+  }
+
+  checkArray(value, "timeline", (item, path) => {
+    if (!isObject(item)) {
+      errors.push(`${path.slice(0, -1)} must be an object`);
+      return;
+    }
+    checkString(item, "time", path);
+    checkString(item, "description", path);
+  });
+  checkArray(value, "remediation", checkStringItem);
+  checkArray(value, "prevention", checkStringItem);
+  checkArray(value, "missingData", checkStringItem);
+
+  return errors;
+}
+
+/**
+ * Find the evidence IDs cited in a text
+ * @param text Text with citations such as [E3]
+ * @returns Evidence IDs in order of their first citation
+ */
+export function findCitations(text: string): string[] {
+  return [...new Set([...text.matchAll(CITATION_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Find the evidence IDs cited in the report
+ * @param report Analysis report
+ * @returns Evidence IDs in order of their first citation
+ */
+export function findReportCitations(report: AnalysisReport): string[] {
+  return [...new Set([
+    ...findCitations(report.summary),
+    ...findCitations(report.impact),
+    ...report.rootCauses.flatMap(hypothesis => [
+      ...findCitations(hypothesis.description),
+      ...hypothesis.evidence.map(item => item.evidenceId)
+    ]),
+    ...report.timeline.flatMap(event => findCitations(event.description)),
+    ...report.remediation.flatMap(findCitations)
+  ])];
+}
+
+/**
+ * Find the claims which cite each evidence ID
+ * A claim is the sentence or the line which has the citation
+ * @param texts Texts with citations such as [E3]
+ * @returns Claims without the citations by evidence ID
+ */
+export function findCitingTexts(texts: string[]): Record<string, string[]> {
+  const citingTexts: Record<string, string[]> = {};
+  for (const claim of texts.flatMap(text => text.split(/(?<=[.。!?！？])\s+|\n/))) {
+    const claimText = claim.replace(/\s?\[E\d+\]/g, "").trim();
+    for (const evidenceId of findCitations(claim)) {
+      (citingTexts[evidenceId] ??= []).push(claimText);
+    }
+  }
+  return citingTexts;
+}
+
+/**
+ * Find the texts of the report which cite each evidence ID
+ * The quotes in the evidence of the root causes come first, since they are taken from the observations as they are
+ * @param report Analysis report
+ * @returns Quotes and claims by evidence ID
+ */
+export function findReportCitingTexts(report: AnalysisReport): Record<string, string[]> {
+  const citingTexts: Record<string, string[]> = {};
+  report.rootCauses.forEach(hypothesis => hypothesis.evidence.forEach(item => {
+    (citingTexts[item.evidenceId] ??= []).push(item.description);
+  }));
+  const claims = findCitingTexts([
+    report.summary,
+    report.impact,
+    ...report.rootCauses.map(hypothesis => hypothesis.description),
+    ...report.timeline.map(event => event.description),
+    ...report.remediation
+  ]);
+  Object.entries(claims).forEach(([evidenceId, texts]) => (citingTexts[evidenceId] ??= []).push(...texts));
+  return citingTexts;
+}
+
+/**
+ * Whether a claim of the report has no citation of the observations
+ * @param text Claim such as the summary or an item of the remediation
+ * @returns True when the claim is not backed by any observation
+ */
+export function isUncitedClaim(text: string): boolean {
+  return findCitations(text).length === 0;
+}
+
+/**
+ * Whether a root cause hypothesis has no citation of the observations
+ * @param hypothesis Root cause hypothesis
+ * @returns True when the hypothesis is not backed by any observation
+ */
+export function isUncitedHypothesis(hypothesis: RootCauseHypothesis): boolean {
+  return hypothesis.evidence.length === 0 && isUncitedClaim(hypothesis.description);
+}
+
+/**
+ * Resolve the cited evidence IDs to the tool observations in the history
+ * @param evidenceIds Cited evidence IDs
+ * @param history Analysis history
+ * @param citingTexts Quotes and claims by evidence ID, around which the excerpts are taken (the start of the observations if omitted)
+ * @returns Cited observations. IDs which are not in the history are skipped
+ */
+export function collectCitedEvidence(
+  evidenceIds: string[],
+  history: HistoryItem[],
+  citingTexts: Record<string, string[]> = {}
+): CitedEvidence[] {
+  return evidenceIds.flatMap(evidenceId => {
+    const item = history.find(historyItem => historyItem.evidenceId === evidenceId);
+    if (!item) {
+      return [];
+    }
+    
+    // The action of a tool observation is the ToolAction as JSON
+    let action: { tool?: string; parameters?: Record<string, unknown> } = {};
+    try {
+      action = JSON.parse(item.action);
+    } catch {
+      // Keep the tool unknown
+    }
+    
+    // The excerpt is shown on one line, so code blocks are flattened
+    const observation = item.observation.replace(/```/g, "").replace(/\s+/g, " ").trim();
+    return [{
+      evidenceId,
+      tool: action.tool ?? "unknown",
+      parameters: action.parameters ?? {},
+      // Cycles are counted from 0 in the session state
+      cycle: item.cycle === undefined ? undefined : item.cycle + 1,
+      excerpt: createExcerpt(observation, citingTexts[evidenceId] ?? [])
+    }];
+  });
+}
+
+/**
+ * Take the part of the observation around what the citing texts claim
+ * @param observation Observation on one line
+ * @param citingTexts Quotes and claims which cite the observation
+ * @returns Excerpt within the maximum length, with "..." where the observation is cut
+ */
+function createExcerpt(observation: string, citingTexts: string[]): string {
+  if (observation.length <= MAX_EXCERPT_LENGTH) {
+    return observation;
+  }
+  
+  const { index, length } = findCitedPart(observation, citingTexts) ?? { index: 0, length: 0 };
+  // The cited part is centered, so that the log line or the metric around it is included
+  const start = length >= MAX_EXCERPT_LENGTH
+    ? index
+    : Math.max(0, Math.min(index - Math.floor((MAX_EXCERPT_LENGTH - length) / 2), observation.length - MAX_EXCERPT_LENGTH));
+  const end = Math.min(start + MAX_EXCERPT_LENGTH, observation.length);
+  return `${start > 0 ? "..." : ""}${observation.substring(start, end)}${end < observation.length ? "..." : ""}`;
+}
+
+/**
+ * Find the part of the observation which the citing texts quote, or else the longest term of them in the observation
+ * @returns Position of the part, or undefined when none of them is in the observation
+ */
+function findCitedPart(observation: string, citingTexts: string[]): { index: number; length: number } | undefined {
+  const lowerObservation = observation.toLowerCase();
+  for (const text of citingTexts) {
+    const quote = text.replace(/\s+/g, " ").trim().toLowerCase();
+    const index = quote ? lowerObservation.indexOf(quote) : -1;
+    if (index >= 0) {
+      return { index, length: quote.length };
+    }
+  }
+  
+  const terms = [...new Set(citingTexts.flatMap(text => text.match(CLAIM_TERM_PATTERN) ?? []))]
+    .sort((a, b) => b.length - a.length);
+  for (const term of terms) {
+    const index = lowerObservation.indexOf(term.toLowerCase());
+    if (index >= 0) {
+      return { index, length: term.length };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Render the analysis report as Markdown
+ * @param report Analysis report
+ * @param language Language of the headings
+ * @param history Analysis history to resolve the citations in the footnotes
+ * @returns Markdown text
+ */
+export function renderAnalysisReport(report: AnalysisReport, language: Language, history: HistoryItem[] = []): string {
+  const i18n = new I18nProvider(language);
+  const uncited = i18n.translate("reportUncitedMarkdown");
+  const flagUncited = (text: string) => isUncitedClaim(text) ? `${text} ${uncited}` : text;
+  const level = (value: ReportLevel) => i18n.translate(
+    ({ high: "reportLevelHigh", medium: "reportLevelMedium", low: "reportLevelLow" } as const)[value]
+  );
+  const list = (items: string[]) => items.length > 0
+    ? items.map(item => `- ${item}`).join("\n")
+    : `- ${i18n.translate("reportNone")}`;
+
+  const rootCauses = report.rootCauses.map((hypothesis, index) => {
+    const evidence = hypothesis.evidence
+      .map(item => `    - [${item.evidenceId}] ${item.description}`)
+      .join("\n");
+    return `${index + 1}. ${hypothesis.description}${isUncitedHypothesis(hypothesis) ? ` ${uncited}` : ""}\n` +
+      `  - ${i18n.translate("reportConfidenceLabel")}: ${level(hypothesis.confidence)}` +
+      (evidence ? `\n  - ${i18n.translate("reportEvidenceLabel")}:\n${evidence}` : "");
+  }).join("\n");
+
+  const timeline = report.timeline.length > 0
+    ? report.timeline
+      .map(event => `- ${event.time}: ${flagUncited(event.description)}`)
+      .join("\n")
+    : `- ${i18n.translate("reportNone")}`;
+
+  const markdown = `${i18n.translate("reportSummaryHeading")}
+${flagUncited(report.summary)}
+
+- ${i18n.translate("reportSeverityLabel")}: ${level(report.severity)}
+
+${i18n.translate("reportRootCauseHeading")}
+${rootCauses}
+
+${i18n.translate("reportImpactHeading")}
+${flagUncited(report.impact)}
+
+${i18n.translate("reportTimelineHeading")}
+${timeline}
+
+${i18n.translate("reportRemediationHeading")}
+${list(report.remediation.map(flagUncited))}
+
+${i18n.translate("reportPreventionHeading")}
+${list(report.prevention)}
+
+${i18n.translate("reportMissingDataHeading")}
+${list(report.missingData)}`;
+
+  const citedEvidence = collectCitedEvidence(findReportCitations(report), history, findReportCitingTexts(report));
+  return markdown + renderEvidenceFootnotes(citedEvidence, language);
+}
+
+/**
+ * Render the cited observations as the footnotes of a Markdown answer
+ * @param citedEvidence Cited observations
+ * @param language Language of the heading
+ * @returns Markdown section, or an empty string when nothing is cited
+ */
+export function renderEvidenceFootnotes(citedEvidence: CitedEvidence[], language: Language): string {
+  if (citedEvidence.length === 0) {
+    return "";
+  }
+  
+  const i18n = new I18nProvider(language);
+  const footnotes = citedEvidence.map(evidence => {
+    const cycle = evidence.cycle === undefined ? "" : i18n.formatTranslation("reportFootnoteCycle", evidence.cycle);
+    return `- **[${evidence.evidenceId}]** \`${evidence.tool}\`${cycle}\n` +
+      `  - ${i18n.translate("reportParametersLabel")}: \`${JSON.stringify(evidence.parameters)}\`\n` +
+      `  - > ${evidence.excerpt}`;
+  }).join("\n");
+  
+  return `\n\n## ${i18n.translate("reportCitedObservationsLabel")}\n${footnotes}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
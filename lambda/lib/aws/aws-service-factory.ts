@@ -6,6 +6,18 @@ import { BedrockService } from './services/bedrock-service.js';
 import { LambdaService } from './services/lambda-service.js';
 import { GuardDutyService } from './services/guardduty-service.js';
 import { SecurityHubService } from './services/securityhub-service.js';
+import { StepFunctionsService } from './services/step-functions-service.js';
+
+/**
+ * Service instances that replace the default ones
+ */
+export interface AWSServiceOverrides {
+  cloudWatchService?: CloudWatchService;
+  cloudWatchLogsService?: CloudWatchLogsService;
+  athenaService?: AthenaService;
+  xrayService?: XRayService;
+  bedrockService?: BedrockService;
+}
 
 /**
  * AWS service factory class
@@ -20,6 +32,7 @@ export class AWSServiceFactory {
   private static lambdaService: LambdaService;
   private static guardDutyService: GuardDutyService;
   private static securityHubService: SecurityHubService;
+  private static stepFunctionsService: StepFunctionsService;
   
   /**
    * Get CloudWatchService instance
@@ -108,4 +121,27 @@ export class AWSServiceFactory {
     }
     return this.securityHubService;
   }
+  
+  /**
+   * Get StepFunctionsService instance
+   * @returns StepFunctionsService instance
+   */
+  static getStepFunctionsService(): StepFunctionsService {
+    if (!this.stepFunctionsService) {
+      this.stepFunctionsService = new StepFunctionsService();
+    }
+    return this.stepFunctionsService;
+  }
+  
+  /**
+   * Replace service instances (e.g. stub services replaying fixtures in local runs)
+   * @param overrides Service instances to return instead of the default ones
+   */
+  static setServices(overrides: AWSServiceOverrides): void {
+    if (overrides.cloudWatchService) this.cloudWatchService = overrides.cloudWatchService;
+    if (overrides.cloudWatchLogsService) this.cloudWatchLogsService = overrides.cloudWatchLogsService;
+    if (overrides.athenaService) this.athenaService = overrides.athenaService;
+    if (overrides.xrayService) this.xrayService = overrides.xrayService;
+    if (overrides.bedrockService) this.bedrockService = overrides.bedrockService;
+  }
 }
@@ -0,0 +1,258 @@
+import { Metric, MetricDataResult } from '@aws-sdk/client-cloudwatch';
+import { LogGroup } from '@aws-sdk/client-cloudwatch-logs';
+import { TraceSummary } from '@aws-sdk/client-xray';
+import { logger } from "../../logger.js";
+import { Configuration } from "../../configuration-service.js";
+import { AWSServiceOverrides } from '../aws-service-factory.js';
+import { CloudWatchService } from '../services/cloudwatch-service.js';
+import { CloudWatchLogsService, LogResults } from '../services/cloudwatch-logs-service.js';
+import { AthenaService } from '../services/athena-service.js';
+import { XRayService } from '../services/xray-service.js';
+import { BedrockService, ConverseResult, ConverseWithToolsResult, KBResult } from '../services/bedrock-service.js';
+import { BedrockThrottlingError } from '../errors/aws-error.js';
+import { RecordedCall, RecordedError } from './recording-services.js';
+import { AnalysisInput } from '../../session-recording.js';
+
+/**
+ * Recorded responses per service method.
+ * Each array is consumed from the head, one element per call.
+ */
+export interface FixtureResponses {
+  bedrock?: {
+    converse?: string[];
+    converseWithUsage?: ConverseResult[];
+    converseWithTools?: ConverseWithToolsResult[];
+    retrieve?: KBResult[][];
+  };
+  cloudWatch?: {
+    listMetrics?: Metric[][];
+    queryMetrics?: MetricDataResult[][];
+  };
+  cloudWatchLogs?: {
+    describeLogGroups?: LogGroup[][];
+    queryLogs?: LogResults[];
+  };
+  athena?: {
+    queryToAthena?: { result: string; query: string }[];
+  };
+  xray?: {
+    queryToXray?: TraceSummary[][];
+  };
+}
+
+/**
+ * Fixture file format
+ */
+export interface Fixture {
+  description?: string;
+  input?: AnalysisInput; // Input of the recorded run
+  config?: Partial<Configuration>; // Applied to ConfigurationService so that the same tools are registered as in the recorded run
+  responses: FixtureResponses;
+}
+
+type FixtureService = keyof FixtureResponses;
+type FixtureMethod<S extends FixtureService> = keyof NonNullable<FixtureResponses[S]>;
+type FixtureResponse<S extends FixtureService, M extends FixtureMethod<S>> =
+  NonNullable<NonNullable<FixtureResponses[S]>[M]> extends (infer R)[] ? R : never;
+
+/**
+ * Recorded response or error of a call
+ */
+interface ReplayEntry {
+  result?: unknown;
+  error?: RecordedError;
+}
+
+/**
+ * Replays recorded responses in the order they were recorded
+ */
+export class FixtureReplayer {
+  private queues = new Map<string, ReplayEntry[]>();
+
+  /**
+   * Constructor
+   * @param responses Recorded responses
+   */
+  constructor(responses: FixtureResponses = {}) {
+    for (const [service, methods] of Object.entries(responses)) {
+      for (const [method, queue] of Object.entries(methods ?? {})) {
+        this.queues.set(`${service}.${method}`, (queue as unknown[]).map(result => ({ result })));
+      }
+    }
+  }
+
+  /**
+   * Create a replayer from the calls captured by SessionRecorder.
+   * Failed calls are replayed by throwing the recorded error.
+   * @param calls Recorded calls
+   * @returns Replayer
+   */
+  static fromRecordedCalls(calls: RecordedCall[]): FixtureReplayer {
+    const replayer = new FixtureReplayer();
+    for (const call of calls) {
+      const key = `${call.service}.${call.method}`;
+      const queue = replayer.queues.get(key) ?? [];
+      queue.push({ result: call.result, error: call.error });
+      replayer.queues.set(key, queue);
+    }
+    return replayer;
+  }
+
+  /**
+   * Take the next recorded response for the service method
+   * @param service Service name
+   * @param method Method name
+   * @returns Recorded response
+   */
+  next<S extends FixtureService, M extends FixtureMethod<S>>(service: S, method: M): FixtureResponse<S, M> {
+    const key = `${service}.${String(method)}`;
+    const entry = this.queues.get(key)?.shift();
+    if (!entry) {
+      throw new Error(`No recorded response left for ${key}`);
+    }
+    logger.info("Replay recorded response", { service, method, remaining: this.queues.get(key)!.length });
+    if (entry.error) {
+      throw this.restoreError(entry.error, String(method));
+    }
+    return structuredClone(entry.result) as FixtureResponse<S, M>;
+  }
+
+  /**
+   * Whether a recorded response is left for the service method
+   * @param service Service name
+   * @param method Method name
+   */
+  hasNext<S extends FixtureService>(service: S, method: FixtureMethod<S>): boolean {
+    return (this.queues.get(`${service}.${String(method)}`)?.length ?? 0) > 0;
+  }
+
+  /**
+   * Get the number of responses that have not been replayed yet
+   * @returns Remaining count per "service.method"
+   */
+  getRemainingCounts(): Record<string, number> {
+    const remaining: Record<string, number> = {};
+    for (const [key, queue] of this.queues) {
+      if (queue.length > 0) {
+        remaining[key] = queue.length;
+      }
+    }
+    return remaining;
+  }
+
+  /**
+   * Restore the recorded error.
+   * Bedrock throttling is restored as BedrockThrottlingError so that the agent takes the same fallback path.
+   */
+  private restoreError(recordedError: RecordedError, method: string): Error {
+    if (recordedError.name === "BedrockThrottlingError") {
+      return new BedrockThrottlingError(recordedError.message, method);
+    }
+    const error = new Error(recordedError.message);
+    error.name = recordedError.name;
+    return error;
+  }
+}
+
+/**
+ * CloudWatchService replaying recorded responses
+ */
+export class FixtureCloudWatchService extends CloudWatchService {
+  constructor(private replayer: FixtureReplayer) {
+    super();
+  }
+
+  async listMetrics(): Promise<Metric[]> {
+    return this.replayer.next("cloudWatch", "listMetrics");
+  }
+
+  async queryMetrics(): Promise<MetricDataResult[]> {
+    return this.replayer.next("cloudWatch", "queryMetrics");
+  }
+}
+
+/**
+ * CloudWatchLogsService replaying recorded responses
+ */
+export class FixtureCloudWatchLogsService extends CloudWatchLogsService {
+  constructor(private replayer: FixtureReplayer) {
+    super();
+  }
+
+  async describeLogGroups(): Promise<LogGroup[]> {
+    return this.replayer.next("cloudWatchLogs", "describeLogGroups");
+  }
+
+  async queryLogs(): Promise<LogResults> {
+    return this.replayer.next("cloudWatchLogs", "queryLogs");
+  }
+}
+
+/**
+ * AthenaService replaying recorded responses
+ */
+export class FixtureAthenaService extends AthenaService {
+  constructor(private replayer: FixtureReplayer) {
+    super();
+  }
+
+  async queryToAthena(): Promise<{ result: string, query: string }> {
+    return this.replayer.next("athena", "queryToAthena");
+  }
+}
+
+/**
+ * XRayService replaying recorded responses
+ */
+export class FixtureXRayService extends XRayService {
+  constructor(private replayer: FixtureReplayer) {
+    super();
+  }
+
+  async queryToXray(): Promise<TraceSummary[]> {
+    return this.replayer.next("xray", "queryToXray");
+  }
+}
+
+/**
+ * BedrockService replaying recorded model replies
+ */
+export class FixtureBedrockService extends BedrockService {
+  constructor(private replayer: FixtureReplayer) {
+    super();
+  }
+
+  async converse(): Promise<string> {
+    return this.replayer.next("bedrock", "converse");
+  }
+
+  // Fixtures written before the token usage was tracked have the replies of converse without the usage
+  async converseWithUsage(): Promise<ConverseResult> {
+    return this.replayer.hasNext("bedrock", "converseWithUsage")
+      ? this.replayer.next("bedrock", "converseWithUsage")
+      : { text: this.replayer.next("bedrock", "converse") };
+  }
+
+  async converseWithTools(): Promise<ConverseWithToolsResult> {
+    return this.replayer.next("bedrock", "converseWithTools");
+  }
+
+  async retrieve(): Promise<KBResult[]> {
+    return this.replayer.next("bedrock", "retrieve");
+  }
+}
+
+/**
+ * Create services replaying the recorded responses for AWSServiceFactory.setServices
+ * @param replayer Replayer of the recorded responses
+ * @returns Service instances
+ */
+export function createFixtureServices(replayer: FixtureReplayer): Required<AWSServiceOverrides> {
+  return {
+    cloudWatchService: new FixtureCloudWatchService(replayer),
+    cloudWatchLogsService: new FixtureCloudWatchLogsService(replayer),
+    athenaService: new FixtureAthenaService(replayer),
+    xrayService: new FixtureXRayService(replayer),
+    bedrockService: new FixtureBedrockService(replayer)
+  };
+}
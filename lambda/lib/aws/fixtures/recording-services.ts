@@ -0,0 +1,110 @@
+import { logger } from "../../logger.js";
+import { AWSServiceFactory, AWSServiceOverrides } from '../aws-service-factory.js';
+
+/**
+ * Error thrown by a recorded call
+ */
+export interface RecordedError {
+  name: string;
+  message: string;
+}
+
+/**
+ * Service method call captured by SessionRecorder
+ */
+export interface RecordedCall {
+  service: string;
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  error?: RecordedError;
+  timestamp: number;
+}
+
+/**
+ * Collects the calls of the AWS services and the Bedrock model
+ */
+export class SessionRecorder {
+  private calls: RecordedCall[] = [];
+
+  /**
+   * Record the start of a call.
+   * Calls are kept in the order they were started so that parallel tool executions are replayed in the same order.
+   * @param service Service name
+   * @param method Method name
+   * @param args Arguments of the call
+   * @returns Recorded call to be completed with the result or the error
+   */
+  start(service: string, method: string, args: unknown[]): RecordedCall {
+    const call: RecordedCall = { service, method, args, timestamp: Date.now() };
+    this.calls.push(call);
+    return call;
+  }
+
+  /**
+   * Take the recorded calls and clear the recorder
+   * @returns Recorded calls
+   */
+  takeCalls(): RecordedCall[] {
+    const calls = this.calls;
+    this.calls = [];
+    return calls;
+  }
+}
+
+/**
+ * Wrap a service so that every async method call is recorded
+ * @param service Service instance
+ * @param serviceName Service name used in the records
+ * @param recorder Recorder
+ * @returns Service with the same interface
+ */
+function recordServiceCalls<T extends object>(service: T, serviceName: string, recorder: SessionRecorder): T {
+  return new Proxy(service, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function" || typeof property !== "string") {
+        return value;
+      }
+      return async (...args: unknown[]) => {
+        // Abort signals of the tool calls are not part of the recorded arguments
+        const call = recorder.start(serviceName, property, args.filter(arg => !(arg instanceof AbortSignal)));
+        try {
+          const result = await value.apply(target, args);
+          // Keep a snapshot so that later mutation by the caller does not change the record
+          call.result = result === undefined ? undefined : JSON.parse(JSON.stringify(result));
+          return result;
+        } catch (error) {
+          call.error = { name: (error as Error).name, message: (error as Error).message };
+          logger.info("Recorded failed call", { service: serviceName, method: property, error: call.error });
+          throw error;
+        }
+      };
+    }
+  });
+}
+
+/**
+ * Create services recording their calls for AWSServiceFactory.setServices
+ * @param recorder Recorder
+ * @param services Services to wrap (current services of AWSServiceFactory if omitted)
+ * @returns Service instances
+ */
+export function createRecordingServices(
+  recorder: SessionRecorder,
+  services: Required<AWSServiceOverrides> = {
+    cloudWatchService: AWSServiceFactory.getCloudWatchService(),
+    cloudWatchLogsService: AWSServiceFactory.getCloudWatchLogsService(),
+    athenaService: AWSServiceFactory.getAthenaService(),
+    xrayService: AWSServiceFactory.getXRayService(),
+    bedrockService: AWSServiceFactory.getBedrockService()
+  }
+): AWSServiceOverrides {
+  return {
+    cloudWatchService: recordServiceCalls(services.cloudWatchService, "cloudWatch", recorder),
+    cloudWatchLogsService: recordServiceCalls(services.cloudWatchLogsService, "cloudWatchLogs", recorder),
+    athenaService: recordServiceCalls(services.athenaService, "athena", recorder),
+    xrayService: recordServiceCalls(services.xrayService, "xray", recorder),
+    bedrockService: recordServiceCalls(services.bedrockService, "bedrock", recorder)
+  };
+}
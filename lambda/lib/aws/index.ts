@@ -1,5 +1,6 @@
 // Service factory
 export { AWSServiceFactory } from './aws-service-factory.js';
+export type { AWSServiceOverrides } from './aws-service-factory.js';
 
 // Service classes
 export { CloudWatchService } from './services/cloudwatch-service.js';
@@ -10,9 +11,16 @@ export { BedrockService } from './services/bedrock-service.js';
 export { LambdaService } from './services/lambda-service.js';
 export { GuardDutyService } from './services/guardduty-service.js';
 export { SecurityHubService } from './services/securityhub-service.js';
+export { StepFunctionsService } from './services/step-functions-service.js';
 
 // Common utilities
 export { paginateResults, iso8601ToMilliseconds } from './common/pagination-utils.js';
 
 // Errors
 export { AWSError } from './errors/aws-error.js';
+
+// Fixture replay for local runs
+export { FixtureReplayer, createFixtureServices } from './fixtures/fixture-services.js';
+export type { Fixture, FixtureResponses } from './fixtures/fixture-services.js';
+export { SessionRecorder, createRecordingServices } from './fixtures/recording-services.js';
+export type { RecordedCall, RecordedError } from './fixtures/recording-services.js';
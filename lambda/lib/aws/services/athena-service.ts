@@ -29,6 +29,7 @@ export class AthenaService {
    * @param queryExecutionContext Query execution context
    * @param queryParams Query parameters
    * @param outputLocation Output location
+   * @param abortSignal Signal to abort the requests
    * @returns Array of key-value pairs
    */
   async queryToAthena(
@@ -36,6 +37,7 @@ export class AthenaService {
     queryExecutionContext: { Database: string },
     queryParams: string[],
     outputLocation: string,
+    abortSignal?: AbortSignal
   ): Promise<{ result: string, query: string }> {
     logger.info("Start", {function: "queryToAthena", input: {query, queryExecutionContext, queryParams, outputLocation}});
     
@@ -51,7 +53,7 @@ export class AthenaService {
         }
       });
       
-      const { QueryExecutionId } = await this.client.send(startQueryExecutionCommand);
+      const { QueryExecutionId } = await this.client.send(startQueryExecutionCommand, { abortSignal });
       
       if (!QueryExecutionId) {
         throw new Error("Failed to get QueryExecutionId");
@@ -60,7 +62,7 @@ export class AthenaService {
       const getQueryExecutionCommand = new GetQueryExecutionCommand({
         QueryExecutionId
       });
-      let queryExecution = await this.client.send(getQueryExecutionCommand);
+      let queryExecution = await this.client.send(getQueryExecutionCommand, { abortSignal });
       
       // Wait for query completion
       while (
@@ -68,14 +70,14 @@ export class AthenaService {
         queryExecution.QueryExecution?.Status?.State === QueryExecutionState.RUNNING
       ) {
         await new Promise((resolve) => setTimeout(resolve, 3000));
-        queryExecution = await this.client.send(getQueryExecutionCommand);
+        queryExecution = await this.client.send(getQueryExecutionCommand, { abortSignal });
       }
       
       // Get query results
       let getQueryResultsCommand = new GetQueryResultsCommand({
         QueryExecutionId
       });
-      let queryResults = await this.client.send(getQueryResultsCommand);
+      let queryResults = await this.client.send(getQueryResultsCommand, { abortSignal });
       
       results = queryResults.ResultSet?.Rows || [];
       
@@ -85,7 +87,7 @@ export class AthenaService {
           QueryExecutionId,
           NextToken: queryResults.NextToken
         });
-        queryResults = await this.client.send(getQueryResultsCommand);
+        queryResults = await this.client.send(getQueryResultsCommand, { abortSignal });
         
         if (queryResults.ResultSet?.Rows) {
           results.push(...queryResults.ResultSet.Rows);
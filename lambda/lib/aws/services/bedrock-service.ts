@@ -1,8 +1,14 @@
 import {
   BedrockRuntimeClient,
+  CachePointType,
   ConverseCommand,
   ConverseCommandInput,
+  ConverseCommandOutput,
   InferenceConfiguration,
+  Message,
+  StopReason,
+  SystemContentBlock,
+  ToolConfiguration,
 } from "@aws-sdk/client-bedrock-runtime";
 import {
   BedrockAgentRuntimeClient,
@@ -14,6 +20,7 @@ import { logger } from "../../logger.js";
 import { AWSError, BedrockThrottlingError } from '../errors/aws-error.js';
 import { retryWithExponentialBackoff, isThrottlingError } from '../common/retry-utils.js';
 import { ConfigurationService } from "../../configuration-service.js";
+import { TokenUsage, fromConverseUsage } from "../../token-usage.js";
 
 /**
  * Type for Knowledge Base search results
@@ -25,6 +32,42 @@ export interface KBResult {
   score?: number;
 }
 
+/**
+ * Type for a multi-turn conversation with the model
+ * The system prompt is the stable prefix of the conversation and is cached when prompt caching is enabled
+ */
+export interface Conversation {
+  system?: string;
+  messages: Message[];
+}
+
+/**
+ * Type for a tool use request returned by the model
+ */
+export interface ToolUseRequest {
+  toolUseId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Type for the result of a conversation with the token usage
+ */
+export interface ConverseResult {
+  text: string;
+  usage?: TokenUsage; // Not set when the response has no usage (e.g. replayed from old recordings)
+}
+
+/**
+ * Type for the result of a conversation with tool use
+ */
+export interface ConverseWithToolsResult {
+  text: string;
+  toolUses: ToolUseRequest[];
+  stopReason?: StopReason;
+  usage?: TokenUsage;
+}
+
 /**
  * Wrapper class for Bedrock service
  */
@@ -56,75 +99,192 @@ export class BedrockService {
   
   /**
    * Converse with Bedrock model
-   * @param prompt Prompt
+   * @param prompt Prompt, or a conversation with a system prompt and message turns
    * @param modelId Model ID (uses configuration service if omitted)
    * @param inferenceConfig Inference configuration
    * @returns Response text from the model
    */
+  async converse(prompt: string, modelId?: string, inferenceConfig?: InferenceConfiguration): Promise<string>;
+  async converse(conversation: Conversation, modelId?: string, inferenceConfig?: InferenceConfiguration): Promise<string>;
   async converse(
-    prompt: string, 
+    input: string | Conversation, 
+    modelId?: string,
+    inferenceConfig?: InferenceConfiguration
+  ): Promise<string> {
+    const { text } = await this.converseWithUsage(input, modelId, inferenceConfig);
+    return text;
+  }
+  
+  /**
+   * Converse with Bedrock model and get the token usage of the call
+   * @param input Prompt, or a conversation with a system prompt and message turns
+   * @param modelId Model ID (uses configuration service if omitted)
+   * @param inferenceConfig Inference configuration
+   * @returns Response text and the token usage
+   */
+  async converseWithUsage(
+    input: string | Conversation, 
     modelId?: string,
     inferenceConfig: InferenceConfiguration = {
       maxTokens: this.DEFAULT_MAX_TOKENS,
       temperature: this.DEFAULT_TEMPERATURE,
     }
-  ): Promise<string> {
+  ): Promise<ConverseResult> {
+    const conversation: Conversation = typeof input === "string"
+      ? { messages: [{ role: "user", content: [{ text: input }] }] }
+      : input;
+    
+    const converseOutput = await this.sendConverseCommand(
+      "converse",
+      'Failed to converse with Bedrock model',
+      this.createConverseCommandInput(conversation, modelId, inferenceConfig)
+    );
+    
+    return {
+      text: this.extractText(converseOutput),
+      usage: fromConverseUsage(converseOutput.usage)
+    };
+  }
+  
+  /**
+   * Converse with Bedrock model using native tool use
+   * @param conversation Conversation (messages must end with a user message)
+   * @param toolConfig Tool configuration passed to the Converse API
+   * @param modelId Model ID (uses configuration service if omitted)
+   * @param inferenceConfig Inference configuration
+   * @returns Text and tool use requests from the model
+   */
+  async converseWithTools(
+    conversation: Conversation,
+    toolConfig: ToolConfiguration,
+    modelId?: string,
+    inferenceConfig: InferenceConfiguration = {
+      maxTokens: this.DEFAULT_MAX_TOKENS,
+      temperature: this.DEFAULT_TEMPERATURE,
+    }
+  ): Promise<ConverseWithToolsResult> {
+    const converseOutput = await this.sendConverseCommand(
+      "converseWithTools",
+      'Failed to converse with Bedrock model using tools',
+      {
+        ...this.createConverseCommandInput(conversation, modelId, inferenceConfig),
+        toolConfig
+      }
+    );
+    
+    const toolUses: ToolUseRequest[] = (converseOutput.output?.message?.content || [])
+      .filter(content => content.toolUse !== undefined)
+      .map(content => ({
+        toolUseId: content.toolUse!.toolUseId!,
+        name: content.toolUse!.name!,
+        input: (content.toolUse!.input || {}) as Record<string, unknown>
+      }));
+    
+    return {
+      text: this.extractText(converseOutput),
+      toolUses,
+      stopReason: converseOutput.stopReason,
+      usage: fromConverseUsage(converseOutput.usage)
+    };
+  }
+  
+  /**
+   * Create input of the Converse API
+   * A cache point is placed after the system prompt so that the stable prefix (system prompt and tools) is cached
+   */
+  private createConverseCommandInput(
+    conversation: Conversation,
+    modelId: string | undefined,
+    inferenceConfig: InferenceConfiguration
+  ): ConverseCommandInput {
     // Use provided model ID or get from configuration service
     const modelToUse = modelId || this.configService.getModelId();
     
-    logger.info("Start", {function: "converse", input: {prompt, modelId: modelToUse, inferenceConfig}});
+    const system: SystemContentBlock[] | undefined = conversation.system
+      ? [
+          { text: conversation.system },
+          ...(this.configService.isPromptCachingEnabled()
+            ? [{ cachePoint: { type: CachePointType.DEFAULT } }]
+            : [])
+        ]
+      : undefined;
+    
+    return {
+      modelId: modelToUse,
+      system,
+      messages: conversation.messages,
+      inferenceConfig,
+    };
+  }
+  
+  /**
+   * Send a Converse command with retry and convert errors
+   */
+  private async sendConverseCommand(
+    operation: string,
+    errorMessage: string,
+    converseCommandInput: ConverseCommandInput
+  ): Promise<ConverseCommandOutput> {
+    logger.info("Start", {function: operation, input: {
+      modelId: converseCommandInput.modelId,
+      hasSystemPrompt: !!converseCommandInput.system,
+      messageCount: converseCommandInput.messages?.length,
+      messages: converseCommandInput.messages,
+      inferenceConfig: converseCommandInput.inferenceConfig
+    }});
     
     try {
-      const converseCommandInput: ConverseCommandInput = {
-        modelId: modelToUse,
-        messages: [
-          {
-            "role": "user",
-            "content": [{"text": prompt}]
-          }
-        ],
-        inferenceConfig,
-      };
-      
       // Retry with exponential backoff
       const converseOutput = await retryWithExponentialBackoff(
         () => this.runtimeClient.send(new ConverseCommand(converseCommandInput))
       );
       
-      logger.info("End", {function: "converse", output: {converseOutput}});
-      return converseOutput.output?.message?.content![0].text || "";
+      logger.info("End", {function: operation, output: {converseOutput}});
+      return converseOutput;
     } catch (error) {
-      logger.error("Error in converse", {error});
+      logger.error(`Error in ${operation}`, {error});
       
       // Check if it's a throttling error
       if (isThrottlingError(error)) {
         throw new BedrockThrottlingError(
           'Bedrock API rate limit exceeded. Please try again later.',
-          'converse',
+          operation,
           error as Error
         );
       } else {
         throw new AWSError(
-          'Failed to converse with Bedrock model',
+          errorMessage,
           'Bedrock',
-          'converse',
+          operation,
           error as Error
         );
       }
     }
   }
   
+  /**
+   * Join text blocks of the model response
+   */
+  private extractText(converseOutput: ConverseCommandOutput): string {
+    return (converseOutput.output?.message?.content || [])
+      .filter(content => content.text !== undefined)
+      .map(content => content.text)
+      .join("\n");
+  }
+  
   /**
    * Search for information from Knowledge Base
    * @param knowledgeBaseId Knowledge Base ID
    * @param retrieveQuery Search query
    * @param rerankModelId Reranking model ID
+   * @param abortSignal Signal to abort the request
    * @returns Array of search results
    */
   async retrieve(
     knowledgeBaseId: string,
     retrieveQuery: string,
-    rerankModelId?: string
+    rerankModelId?: string,
+    abortSignal?: AbortSignal
   ): Promise<KBResult[]> {
     logger.info("Start", {function: "retrieve", input: {knowledgeBaseId, retrieveQuery, rerankModelId}});
     
@@ -169,7 +329,7 @@ export class BedrockService {
       
       // Retry with exponential backoff
       const retrieveResponse: RetrieveCommandOutput = await retryWithExponentialBackoff(
-        () => this.agentRuntimeClient.send(retrieveCommand)
+        () => this.agentRuntimeClient.send(retrieveCommand, { abortSignal })
       );
       
       logger.info("End", {function: "retrieve", output: {retrieveResponse}});
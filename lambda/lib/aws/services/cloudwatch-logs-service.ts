@@ -96,13 +96,15 @@ export class CloudWatchLogsService {
    * @param endDate End date and time
    * @param logGroups Array of log group names
    * @param queryString Query string
+   * @param abortSignal Signal to abort the requests
    * @returns Query results
    */
   async queryLogs(
     startDate: string,
     endDate: string,
     logGroups: string[],
-    queryString: string
+    queryString: string,
+    abortSignal?: AbortSignal
   ): Promise<LogResults> {
     logger.info("Start", {function: "queryLogs", input: {startDate, endDate, logGroups, queryString}});
     
@@ -115,7 +117,7 @@ export class CloudWatchLogsService {
         queryString
       });
       
-      const resStartQuery = await this.client.send(startQueryCommand);
+      const resStartQuery = await this.client.send(startQueryCommand, { abortSignal });
       
       if (!resStartQuery.queryId) {
         throw new Error("Failed to start query: No query ID returned");
@@ -126,7 +128,7 @@ export class CloudWatchLogsService {
         queryId: resStartQuery.queryId
       });
       
-      let resQueryResults = await this.client.send(getQueryResultsCommand);
+      let resQueryResults = await this.client.send(getQueryResultsCommand, { abortSignal });
       const startTime = Date.now();
       
       // Wait until query completes
@@ -140,7 +142,7 @@ export class CloudWatchLogsService {
         }
         
         await new Promise((resolve) => setTimeout(resolve, this.QUERY_POLL_INTERVAL_MS));
-        resQueryResults = await this.client.send(getQueryResultsCommand);
+        resQueryResults = await this.client.send(getQueryResultsCommand, { abortSignal });
       }
       
       // Convert results
@@ -27,9 +27,10 @@ export class CloudWatchService {
   /**
    * Get metrics for the specified namespace
    * @param namespace Metrics namespace
+   * @param abortSignal Signal to abort the request
    * @returns Array of metrics
    */
-  async listMetrics(namespace: string): Promise<Metric[]> {
+  async listMetrics(namespace: string, abortSignal?: AbortSignal): Promise<Metric[]> {
     logger.info("Start", {function: "listMetrics", input: {namespace}});
     
     try {
@@ -38,7 +39,7 @@ export class CloudWatchService {
         RecentlyActive: "PT3H" // 型を合わせるために直接リテラルを使用
       });
       
-      const response = await this.client.send(command);
+      const response = await this.client.send(command, { abortSignal });
       const metrics = response.Metrics || [];
       
       logger.info("End", {function: "listMetrics", output: {metrics}});
@@ -59,13 +60,15 @@ export class CloudWatchService {
    * @param startDate Start date and time
    * @param endDate End date and time
    * @param query Metrics data query
+   * @param abortSignal Signal to abort the requests
    * @returns Key-value pairs
    */
   async queryMetrics(
     startDate: string,
     endDate: string,
     query: MetricDataQuery[],
-    outputKey: string
+    outputKey: string,
+    abortSignal?: AbortSignal
   ): Promise<MetricDataResult[]> {
     logger.info("Start", {function: "queryMetrics", input: {startDate, endDate, query, outputKey}});
     
@@ -76,7 +79,7 @@ export class CloudWatchService {
         EndTime: new Date(endDate) 
       };
       
-      let resGetMetricDataCommand = await this.client.send(new GetMetricDataCommand(input));
+      let resGetMetricDataCommand = await this.client.send(new GetMetricDataCommand(input), { abortSignal });
       const metricsData = resGetMetricDataCommand.MetricDataResults ? 
         resGetMetricDataCommand.MetricDataResults : [] as MetricDataResult[];
       
@@ -85,7 +88,8 @@ export class CloudWatchService {
           new GetMetricDataCommand({
             NextToken: resGetMetricDataCommand.NextToken, 
             ...input
-          })
+          }),
+          { abortSignal }
         );
         
         if(resGetMetricDataCommand.MetricDataResults){
@@ -0,0 +1,69 @@
+import {
+  SFNClient,
+  StartExecutionCommand,
+  StartExecutionCommandInput
+} from "@aws-sdk/client-sfn";
+import { logger } from "../../logger.js";
+import { AWSError } from '../errors/aws-error.js';
+
+/**
+ * Type for state machine execution start result
+ */
+export interface StartExecutionResult {
+  executionArn?: string;
+  startDate?: Date;
+}
+
+/**
+ * Wrapper class for Step Functions service
+ */
+export class StepFunctionsService {
+  private client: SFNClient;
+
+  /**
+   * Constructor
+   * @param client SFNClient
+   */
+  constructor(client?: SFNClient) {
+    this.client = client || new SFNClient();
+  }
+
+  /**
+   * Start state machine execution
+   * @param stateMachineArn State machine ARN
+   * @param input Execution input
+   * @param name Execution name (generated by Step Functions if omitted)
+   * @returns Execution start result
+   */
+  async startExecution(
+    stateMachineArn: string,
+    input: string,
+    name?: string
+  ): Promise<StartExecutionResult> {
+    logger.info("Start", {function: "startExecution", input: {stateMachineArn, input, name}});
+
+    try {
+      const commandInput: StartExecutionCommandInput = {
+        stateMachineArn,
+        input,
+        name
+      };
+
+      const response = await this.client.send(new StartExecutionCommand(commandInput));
+
+      logger.info("End", {function: "startExecution", output: {response}});
+      return {
+        executionArn: response.executionArn,
+        startDate: response.startDate
+      };
+    } catch (error) {
+      logger.error("Error in startExecution", {error});
+      throw new AWSError(
+        `Failed to start execution of state machine ${stateMachineArn}`,
+        'StepFunctions',
+        'startExecution',
+        error as Error
+      );
+    }
+  }
+}
@@ -25,11 +25,13 @@ export class XRayService {
    * Get X-Ray trace summaries
    * @param startDate Start date and time
    * @param endDate End date and time
+   * @param abortSignal Signal to abort the requests
    * @returns Array of trace summaries
    */
   async queryToXray(
     startDate: string,
-    endDate: string
+    endDate: string,
+    abortSignal?: AbortSignal
   ): Promise<TraceSummary[]> {
     logger.info("Start", {function: "queryToXray", input: {startDate, endDate}});
     
@@ -41,7 +43,7 @@ export class XRayService {
       };
       
       let command = new GetTraceSummariesCommand(input);
-      let response = await this.client.send(command);
+      let response = await this.client.send(command, { abortSignal });
       
       const traces = response.TraceSummaries || [] as TraceSummary[];
       
@@ -51,7 +53,7 @@ export class XRayService {
           ...input,
           NextToken: response.NextToken
         });
-        response = await this.client.send(command);
+        response = await this.client.send(command, { abortSignal });
         
         if (response.TraceSummaries) {
           traces.push(...response.TraceSummaries);
@@ -1,4 +1,30 @@
 import { logger } from "./logger.js";
+import { resolveTimezone } from "./timezone.js";
+import { ModelPricing, UsageBudget } from "./token-usage.js";
+import { ToolPluginConfig } from "./tool-plugin.js";
+import { DEFAULT_TOOL_EXECUTION_LIMITS, ToolExecutionLimits } from "./tools-registry.js";
+import { DEFAULT_MAX_LOOKBACK_MINUTES } from "./time-window.js";
+
+/**
+ * ReActエージェントがツールを呼び出す方式
+ * native: Bedrock Converse APIのツール利用（toolUse/toolResult）
+ * xml: プロンプト内の<Action>タグを正規表現で抽出する（ツール利用に対応していないモデル向け）
+ */
+export type ToolUseMode = "native" | "xml";
+
+/**
+ * ReActループの駆動方式
+ * lambda: エージェントのLambda関数が自身を非同期に呼び出す
+ * stepfunctions: Step Functionsのステートマシンがループを駆動する
+ */
+export type OrchestrationMode = "lambda" | "stepfunctions";
+
+/**
+ * 会話に含める分析履歴の圧縮方式
+ * truncate: 直近のサイクルのみを含め、それ以前は実行したステップ数のみを伝える
+ * summarize: トークン数の上限まで直近のサイクルを含め、それ以前はサイクルごとにモデルで要約する
+ */
+export type HistoryCompressionMode = "truncate" | "summarize";
 
 /**
  * アプリケーション全体の設定を管理するインターフェース
@@ -6,11 +32,25 @@ import { logger } from "./logger.js";
 export interface Configuration {
   // 共通設定
   language: string;
+  timezone: string; // IANA timezone name to enter and show the timestamps
   modelId: string;
+  promptCachingEnabled: boolean;
+  
+  // トークン使用量関連
+  tokenBudget: number | null; // セッションあたりの最大トークン数
+  costBudget: number | null; // セッションあたりの最大コスト（USD、modelPricingが必要）
+  modelPricing: ModelPricing | null;
   
   // セッション関連
   sessionTableName: string | null;
   maxAgentCycles: number;
+  toolUseMode: ToolUseMode;
+  historyCompression: HistoryCompressionMode;
+  historyTokenLimit: number; // summarizeの場合に要約せずに会話に含める履歴の推定トークン数
+  summaryModelId: string | null; // 履歴の要約に使用するモデル（未設定の場合はmodelId）
+  orchestrationMode: OrchestrationMode;
+  stateMachineArn: string | null;
+  sessionRecordingEnabled: boolean;
   
   // CloudWatch関連
   cwLogsLogGroups: string[];
@@ -30,9 +70,19 @@ export interface Configuration {
   knowledgeBaseId: string | null;
   rerankModelId: string | null;
   
+  // ツール実行関連
+  toolPlugins: ToolPluginConfig[];
+  toolTimeouts: Record<string, number>; // ツール名ごとのタイムアウト（秒、"default"はその他のツール）
+  maxObservationLength: number | null; // ツールの実行結果の最大文字数
+  toolFailureThreshold: number | null; // ツールを無効にする連続失敗回数
+  toolResultCache: boolean; // 同じパラメータのツール呼び出しでセッション内の実行結果を再利用するか
+  sharedToolResultCacheTtl: number | null; // セッション間で実行結果を共有する期間（秒、未設定の場合は共有しない）
+  maxLookbackMinutes: number; // ツールの呼び出しで分析の開始日時より前に遡れる最大の分数
+  
   // Slack関連
   slackAppTokenKey: string;
   slackSigningSecretKey: string | null;
+  detectUserTimezone: boolean; // Use the timezone of the Slack user profile instead of the configured one
   
   // アーキテクチャ
   architectureDescription: string;
@@ -76,12 +126,16 @@ export class ConfigurationService {
       ConfigurationService.isInitialized = true;
       logger.info("ConfigurationService initialized successfully", { 
         language: this.config.language,
+        timezone: this.config.timezone,
+        toolUseMode: this.config.toolUseMode,
+        orchestrationMode: this.config.orchestrationMode,
         hasAthenaDatabase: !!this.config.athenaDatabase,
         hasAlbAccessLogTable: !!this.config.albAccessLogTable,
         hasCloudTrailLogTable: !!this.config.cloudTrailLogTable,
         xrayTraceEnabled: this.config.xrayTraceEnabled,
         knowledgeBaseEnabled: this.config.knowledgeBaseEnabled,
-        logGroupsCount: this.config.cwLogsLogGroups.length
+        logGroupsCount: this.config.cwLogsLogGroups.length,
+        toolPlugins: this.config.toolPlugins.map(plugin => plugin.name)
       });
     } catch (error) {
       // 初期化失敗
@@ -102,9 +156,21 @@ export class ConfigurationService {
     
     this.config = {
       language: process.env.LANG || "en",
+      timezone: resolveTimezone(process.env.TIMEZONE),
       modelId: process.env.MODEL_ID || "",
+      promptCachingEnabled: process.env.PROMPT_CACHING !== "false",
+      tokenBudget: process.env.TOKEN_BUDGET ? Number(process.env.TOKEN_BUDGET) : null,
+      costBudget: process.env.COST_BUDGET_USD ? Number(process.env.COST_BUDGET_USD) : null,
+      modelPricing: process.env.MODEL_PRICING ? JSON.parse(process.env.MODEL_PRICING) : null,
       sessionTableName: process.env.SESSION_TABLE_NAME || null,
       maxAgentCycles: Number(process.env.MAX_AGENT_CYCLES || "5"),
+      toolUseMode: process.env.TOOL_USE_MODE === "xml" ? "xml" : "native",
+      historyCompression: process.env.HISTORY_COMPRESSION === "summarize" ? "summarize" : "truncate",
+      historyTokenLimit: Number(process.env.HISTORY_TOKEN_LIMIT || "20000"),
+      summaryModelId: process.env.SUMMARY_MODEL_ID || null,
+      orchestrationMode: process.env.ORCHESTRATION_MODE === "stepfunctions" ? "stepfunctions" : "lambda",
+      stateMachineArn: process.env.STATE_MACHINE_ARN || null,
+      sessionRecordingEnabled: process.env.SESSION_RECORDING === "true",
       cwLogsLogGroups: configuredLogGroups,
       cwLogsInsightQuery: process.env.CW_LOGS_INSIGHT_QUERY || "",
       athenaDatabase: process.env.ATHENA_DATABASE_NAME || null,
@@ -115,8 +181,16 @@ export class ConfigurationService {
       knowledgeBaseEnabled: !!process.env.KNOWLEDGEBASE_ID,
       knowledgeBaseId: process.env.KNOWLEDGEBASE_ID || null,
       rerankModelId: process.env.RERANK_MODEL_ID || null,
+      toolPlugins: process.env.TOOL_PLUGINS ? JSON.parse(process.env.TOOL_PLUGINS) : [],
+      toolTimeouts: process.env.TOOL_TIMEOUTS ? JSON.parse(process.env.TOOL_TIMEOUTS) : {},
+      maxObservationLength: process.env.MAX_OBSERVATION_LENGTH ? Number(process.env.MAX_OBSERVATION_LENGTH) : null,
+      toolFailureThreshold: process.env.TOOL_FAILURE_THRESHOLD ? Number(process.env.TOOL_FAILURE_THRESHOLD) : null,
+      toolResultCache: process.env.TOOL_RESULT_CACHE !== "false",
+      sharedToolResultCacheTtl: process.env.SHARED_TOOL_RESULT_CACHE_TTL ? Number(process.env.SHARED_TOOL_RESULT_CACHE_TTL) : null,
+      maxLookbackMinutes: process.env.MAX_LOOKBACK_MINUTES ? Number(process.env.MAX_LOOKBACK_MINUTES) : DEFAULT_MAX_LOOKBACK_MINUTES,
       slackAppTokenKey: process.env.SLACK_APP_TOKEN_KEY || "",
       slackSigningSecretKey: process.env.SLACK_SIGNING_SECRET_KEY || null,
+      detectUserTimezone: process.env.DETECT_USER_TIMEZONE === "true",
       architectureDescription: process.env.ARCHITECTURE_DESCRIPTION || "",
       region: process.env.AWS_REGION || "us-east-1",
       lambdaFunctionName: process.env.FUNCTION_NAME || process.env.AWS_LAMBDA_FUNCTION_NAME || null,
@@ -171,6 +245,13 @@ export class ConfigurationService {
     return this.config.language;
   }
   
+  /**
+   * タイムゾーンを取得する
+   */
+  public getTimezone(): string {
+    return this.config.timezone;
+  }
+  
   /**
    * モデルIDを取得する
    */
@@ -185,6 +266,31 @@ export class ConfigurationService {
     return this.config.sessionTableName;
   }
   
+  /**
+   * プロンプトキャッシュを利用するかどうかを取得する
+   */
+  public isPromptCachingEnabled(): boolean {
+    return this.config.promptCachingEnabled;
+  }
+  
+  /**
+   * セッションあたりのトークン数とコストの上限を取得する
+   */
+  public getUsageBudget(): UsageBudget {
+    return {
+      maxTokens: this.config.tokenBudget,
+      maxCostUsd: this.config.costBudget,
+      pricing: this.config.modelPricing
+    };
+  }
+  
+  /**
+   * モデルの料金を取得する
+   */
+  public getModelPricing(): ModelPricing | null {
+    return this.config.modelPricing;
+  }
+  
   /**
    * 最大エージェントサイクル数を取得する
    */
@@ -192,6 +298,55 @@ export class ConfigurationService {
     return this.config.maxAgentCycles;
   }
   
+  /**
+   * ツールの呼び出し方式を取得する
+   */
+  public getToolUseMode(): ToolUseMode {
+    return this.config.toolUseMode;
+  }
+
+  /**
+   * 分析履歴の圧縮方式を取得する
+   */
+  public getHistoryCompression(): HistoryCompressionMode {
+    return this.config.historyCompression;
+  }
+
+  /**
+   * 要約せずに会話に含める分析履歴の推定トークン数を取得する
+   */
+  public getHistoryTokenLimit(): number {
+    return this.config.historyTokenLimit;
+  }
+
+  /**
+   * 分析履歴の要約に使用するモデルIDを取得する
+   */
+  public getSummaryModelId(): string | null {
+    return this.config.summaryModelId;
+  }
+
+  /**
+   * ReActループの駆動方式を取得する
+   */
+  public getOrchestrationMode(): OrchestrationMode {
+    return this.config.orchestrationMode;
+  }
+  
+  /**
+   * ReActループを駆動するステートマシンのARNを取得する
+   */
+  public getStateMachineArn(): string | null {
+    return this.config.stateMachineArn;
+  }
+  
+  /**
+   * セッションのツール呼び出しとモデル呼び出しを記録するかどうかを取得する
+   */
+  public isSessionRecordingEnabled(): boolean {
+    return this.config.sessionRecordingEnabled;
+  }
+  
   /**
    * CloudWatch Logsのロググループを取得する
    */
@@ -262,6 +417,47 @@ export class ConfigurationService {
     return this.config.rerankModelId;
   }
   
+  /**
+   * ツールプラグインの設定を取得する
+   */
+  public getToolPlugins(): ToolPluginConfig[] {
+    return this.config.toolPlugins;
+  }
+  
+  /**
+   * ツールのタイムアウト、実行結果の最大文字数、無効にする連続失敗回数を取得する
+   */
+  public getToolExecutionLimits(): ToolExecutionLimits {
+    const { default: defaultTimeoutSeconds, ...timeoutSeconds } = this.config.toolTimeouts;
+    return {
+      defaultTimeoutMs: defaultTimeoutSeconds ? defaultTimeoutSeconds * 1000 : DEFAULT_TOOL_EXECUTION_LIMITS.defaultTimeoutMs,
+      timeoutsMs: Object.fromEntries(Object.entries(timeoutSeconds).map(([toolName, seconds]) => [toolName, seconds * 1000])),
+      maxObservationLength: this.config.maxObservationLength ?? DEFAULT_TOOL_EXECUTION_LIMITS.maxObservationLength,
+      failureThreshold: this.config.toolFailureThreshold ?? DEFAULT_TOOL_EXECUTION_LIMITS.failureThreshold
+    };
+  }
+  
+  /**
+   * ツールの実行結果のキャッシュが有効かどうかを取得する
+   */
+  public isToolResultCacheEnabled(): boolean {
+    return this.config.toolResultCache;
+  }
+  
+  /**
+   * セッション間で実行結果を共有する期間（秒）を取得する
+   */
+  public getSharedToolResultCacheTtl(): number | null {
+    return this.config.sharedToolResultCacheTtl;
+  }
+  
+  /**
+   * ツールの呼び出しで分析の開始日時より前に遡れる最大の分数を取得する
+   */
+  public getMaxLookbackMinutes(): number {
+    return this.config.maxLookbackMinutes;
+  }
+  
   /**
    * Slackアプリトークンキーを取得する
    */
@@ -275,7 +471,14 @@ export class ConfigurationService {
   public getSlackSigningSecretKey(): string | null {
     return this.config.slackSigningSecretKey;
   }
-  
+
+  /**
+   * Slackユーザーのプロフィールからタイムゾーンを取得するかどうかを取得する
+   */
+  public isUserTimezoneDetectionEnabled(): boolean {
+    return this.config.detectUserTimezone;
+  }
+
   /**
    * アーキテクチャ説明を取得する
    */
@@ -0,0 +1,239 @@
+import { HistoryItem } from "./react-agent.js";
+import { Prompt } from "./prompt.js";
+import { logger } from "./logger.js";
+import { AWSServiceFactory } from "./aws/aws-service-factory.js";
+import { BedrockService } from "./aws/services/bedrock-service.js";
+import { ConfigurationService, HistoryCompressionMode } from "./configuration-service.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+import { TokenUsage, addTokenUsage } from "./token-usage.js";
+
+// Lines of the observations kept verbatim in the digests
+const ERROR_FACT_PATTERN = /error|exception|fail|fatal|timeout|timed out|throttl|denied|refused|unavailable|killed|oom|エラー|失敗/i;
+const NUMERIC_FACT_PATTERN = /\d+(\.\d+)?\s*(%|ms|sec|s|mb|gb|kb|mib|gib)\b|[:=]\s*-?\d+(\.\d+)?\b|\b[45]\d\d\b/i;
+const MAX_FACTS_PER_CYCLE = 8;
+const MAX_FACT_LENGTH = 200;
+const MAX_FALLBACK_SUMMARY_LENGTH = 300;
+// Rough number of characters per token of ASCII text. Other characters (e.g. Japanese) are counted as one token each
+const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Summary of the observations of one cycle, kept in the session state so that it is created only once
+ */
+export interface HistoryDigest {
+  cycle: number;
+  evidenceIds: string[]; // Evidence IDs of the summarized observations, which the final answer can still cite
+  summary: string;
+  facts: string[]; // Error messages and numeric values quoted verbatim from the observations
+}
+
+/**
+ * History to compress before building the conversation with the model
+ */
+export interface HistoryCompressionInput {
+  history: HistoryItem[];
+  cycleCount: number;
+  digests: HistoryDigest[]; // Digests saved in the session state
+}
+
+/**
+ * Compressed history
+ */
+export interface CompressedHistory {
+  recentHistory: HistoryItem[]; // History items replayed as they are
+  summary: string | null; // Text which replaces the older history in the initial message
+  digests: HistoryDigest[]; // Digests to save in the session state
+  usage?: TokenUsage; // Token usage of the model calls to create the digests
+}
+
+/**
+ * Strategy to fit the analysis history into the context window of the model
+ */
+export interface HistoryCompressionStrategy {
+  readonly name: HistoryCompressionMode;
+  compress(input: HistoryCompressionInput): Promise<CompressedHistory>;
+}
+
+/**
+ * Keep only the last cycles and replace the older history with the number of the executed steps
+ */
+export class TruncationStrategy implements HistoryCompressionStrategy {
+  readonly name = "truncate";
+
+  constructor(private prompt: Prompt) {}
+
+  async compress({ history, cycleCount, digests }: HistoryCompressionInput): Promise<CompressedHistory> {
+    return { ...this.prompt.optimizeHistory(history, cycleCount), digests };
+  }
+}
+
+/**
+ * Keep the recent cycles within the token limit and replace the older cycles with their digests
+ * A digest is created by a model call when its cycle leaves the recent history, and key facts are extracted verbatim
+ */
+export class SummarizationStrategy implements HistoryCompressionStrategy {
+  readonly name = "summarize";
+  private bedrockService: BedrockService;
+
+  /**
+   * @param prompt Prompt to create the digest prompts
+   * @param i18n I18n provider of the summary text
+   * @param options tokenLimit: Estimated tokens of the history replayed as it is, modelId: Model for the digests (uses configuration service if omitted)
+   */
+  constructor(
+    private prompt: Prompt,
+    private i18n: I18nProvider,
+    private options: { tokenLimit: number; modelId?: string | null }
+  ) {
+    this.bedrockService = AWSServiceFactory.getBedrockService();
+  }
+
+  async compress({ history, digests }: HistoryCompressionInput): Promise<CompressedHistory> {
+    const groups = groupHistoryByCycle(history);
+
+    // The latest cycle is always kept, even when it alone exceeds the limit
+    let recentStart = groups.length - 1;
+    let tokens = estimateHistoryTokens(groups[recentStart] ?? []);
+    while (recentStart > 0) {
+      const groupTokens = estimateHistoryTokens(groups[recentStart - 1]);
+      if (tokens + groupTokens > this.options.tokenLimit) {
+        break;
+      }
+      tokens += groupTokens;
+      recentStart--;
+    }
+    if (recentStart <= 0) {
+      return { recentHistory: history, summary: null, digests };
+    }
+
+    const savedDigests = [...digests];
+    const summaryDigests: HistoryDigest[] = [];
+    let usage: TokenUsage | undefined;
+    // Items without cycle (e.g. retries without an action) have no observation to keep
+    for (const items of groups.slice(0, recentStart).filter(items => items[0].cycle !== undefined)) {
+      const cycle = items[0].cycle!;
+      const saved = savedDigests.find(digest => digest.cycle === cycle);
+      if (saved) {
+        summaryDigests.push(saved);
+        continue;
+      }
+
+      const digest: HistoryDigest = {
+        cycle,
+        evidenceIds: items.map(item => item.evidenceId).filter((evidenceId): evidenceId is string => evidenceId !== undefined),
+        summary: "",
+        facts: extractKeyFacts(items.map(item => item.observation).join("\n"))
+      };
+      try {
+        const result = await this.bedrockService.converseWithUsage(
+          this.prompt.createHistoryDigestPrompt(items),
+          this.options.modelId ?? undefined
+        );
+        if (result.usage) {
+          usage = addTokenUsage(usage, result.usage);
+        }
+        digest.summary = result.text.trim();
+        savedDigests.push(digest);
+      } catch (error) {
+        // The digest is not saved so that it is created again in the next step
+        logger.warn("Failed to summarize the history", { cycle, error });
+        const thinking = items[0].thinking.replace(/\s+/g, " ").trim();
+        digest.summary = thinking.length > MAX_FALLBACK_SUMMARY_LENGTH
+          ? thinking.substring(0, MAX_FALLBACK_SUMMARY_LENGTH) + "..."
+          : thinking;
+      }
+      summaryDigests.push(digest);
+    }
+
+    const oldHistory = groups.slice(0, recentStart).flat();
+    return {
+      recentHistory: groups.slice(recentStart).flat(),
+      summary: this.describeDigests(oldHistory.length, summaryDigests),
+      digests: savedDigests,
+      usage
+    };
+  }
+
+  private describeDigests(stepCount: number, digests: HistoryDigest[]): string {
+    const lines = digests.map(digest => {
+      const evidenceIds = digest.evidenceIds.length > 0 ? digest.evidenceIds.join(", ") : "-";
+      const facts = digest.facts.map(fact => `\n  - ${fact}`).join("");
+      return `- ${this.i18n.formatTranslation("promptHistoryDigestItem", digest.cycle, evidenceIds, digest.summary || "-")}${facts}`;
+    });
+    return [this.i18n.formatTranslation("promptHistoryDigestSummary", stepCount), ...lines].join("\n");
+  }
+}
+
+/**
+ * Create the history compression strategy of the configuration
+ * @param prompt Prompt of the session
+ * @param configService Configuration service
+ */
+export function createHistoryCompressionStrategy(prompt: Prompt, configService: ConfigurationService): HistoryCompressionStrategy {
+  return configService.getHistoryCompression() === "summarize"
+    ? new SummarizationStrategy(prompt, prompt.i18n, {
+      tokenLimit: configService.getHistoryTokenLimit(),
+      modelId: configService.getSummaryModelId()
+    })
+    : new TruncationStrategy(prompt);
+}
+
+/**
+ * Group history items executed in the same cycle, which share one thinking
+ */
+export function groupHistoryByCycle(history: HistoryItem[]): HistoryItem[][] {
+  const groups: HistoryItem[][] = [];
+
+  for (const item of history) {
+    const lastGroup = groups[groups.length - 1];
+    if (lastGroup && item.cycle !== undefined && lastGroup[0].cycle === item.cycle) {
+      lastGroup.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Estimate the tokens of a text without calling the model
+ */
+export function estimateTokens(text: string): number {
+  let asciiCharacters = 0;
+  let otherCharacters = 0;
+  for (const character of text) {
+    if (character.charCodeAt(0) < 128) {
+      asciiCharacters++;
+    } else {
+      otherCharacters++;
+    }
+  }
+  return Math.ceil(asciiCharacters / CHARACTERS_PER_TOKEN) + otherCharacters;
+}
+
+/**
+ * Estimate the tokens of history items replayed in the conversation
+ */
+export function estimateHistoryTokens(items: HistoryItem[]): number {
+  // Items of a cycle share the thinking, which is replayed once
+  return estimateTokens(items[0]?.thinking ?? "") +
+    items.reduce((total, item) => total + estimateTokens(item.action) + estimateTokens(item.observation), 0);
+}
+
+/**
+ * Extract the lines with error messages and numeric values, which must not be paraphrased by the summary
+ * @param observation Observation text
+ * @returns Lines in order of priority (errors first)
+ */
+export function extractKeyFacts(observation: string): string[] {
+  const lines = [...new Set(
+    observation.split("\n")
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith("```"))
+  )];
+  const errors = lines.filter(line => ERROR_FACT_PATTERN.test(line));
+  const numbers = lines.filter(line => !ERROR_FACT_PATTERN.test(line) && NUMERIC_FACT_PATTERN.test(line));
+  return [...errors, ...numbers]
+    .slice(0, MAX_FACTS_PER_CYCLE)
+    .map(line => line.length > MAX_FACT_LENGTH ? line.substring(0, MAX_FACT_LENGTH) + "..." : line);
+}
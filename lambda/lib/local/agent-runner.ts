@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import { Prompt } from "../prompt.js";
+import { ReActAgent, SessionState, StepResult } from "../react-agent.js";
+import { ToolRegistry } from "../tools-registry.js";
+import { registerAllTools } from "../tool-executors/index.js";
+import { ConfigurationService } from "../configuration-service.js";
+import { createHistoryCompressionStrategy } from "../history-compression.js";
+import { createToolResultCache } from "../tool-result-cache.js";
+import { I18nProvider, Language } from "../messaging/providers/i18n-provider.js";
+import { setI18nProvider } from "../messaging/providers/i18n-factory.js";
+import { AnalysisInput } from "../session-recording.js";
+import { InMemorySessionStore, SessionStore } from "../session-store/index.js";
+
+/**
+ * Result of a local run
+ */
+export interface AgentRunResult {
+  sessionId: string;
+  state: SessionState;
+  finalAnswer: string | null;
+}
+
+// Thinking, acting and observing steps per cycle with margin for retries
+const MAX_STEPS_PER_CYCLE = 4;
+
+/**
+ * Run ReActAgent until the analysis completes without Lambda and Slack.
+ * Same as the Lambda function, the agent is restored from the session store for each step.
+ * @param input Input of the analysis
+ * @param options Session ID, session store (in memory if omitted), configuration service and callback called after each step
+ * @returns Result of the run
+ */
+export async function runAgent(
+  input: AnalysisInput,
+  options?: {
+    sessionId?: string;
+    sessionStore?: SessionStore;
+    configService?: ConfigurationService;
+    onStep?: (state: SessionState, stepResult: StepResult) => void;
+  }
+): Promise<AgentRunResult> {
+  const configService = options?.configService ?? ConfigurationService.getInstance();
+  const sessionId = options?.sessionId ?? randomUUID();
+
+  const lang = configService.getLanguage() as Language;
+  const i18n = new I18nProvider(lang);
+  setI18nProvider(i18n);
+
+  const timezone = input.timezone ?? configService.getTimezone();
+  const prompt = new Prompt(lang, configService.getArchitectureDescription(), i18n, timezone, {
+    startDate: input.startDate,
+    endDate: input.endDate,
+    maxLookbackMinutes: configService.getMaxLookbackMinutes()
+  });
+  // Results are cached only in the session, so that local runs and evaluations do not depend on other sessions
+  const toolRegistry = new ToolRegistry(
+    configService.getToolExecutionLimits(),
+    i18n,
+    createToolResultCache({ startDate: input.startDate, endDate: input.endDate, timezone, language: lang }, configService)
+  );
+  await registerAllTools(toolRegistry, { startDate: input.startDate, endDate: input.endDate, timezone }, i18n, configService);
+
+  const sessionStore = options?.sessionStore ?? new InMemorySessionStore();
+  const maxSteps = (configService.getMaxAgentCycles() + 2) * MAX_STEPS_PER_CYCLE;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const reactAgent = new ReActAgent(
+      sessionId,
+      input.errorDescription,
+      toolRegistry,
+      prompt,
+      {
+        maxAgentCycles: configService.getMaxAgentCycles(),
+        toolUseMode: configService.getToolUseMode(),
+        budget: configService.getUsageBudget(),
+        historyCompression: createHistoryCompressionStrategy(prompt, configService)
+      }
+    );
+    const sessionState = await sessionStore.getSessionState(sessionId);
+    if (sessionState) {
+      reactAgent.setSessionState(sessionState);
+    }
+
+    const stepResult = await reactAgent.executeStep();
+    const currentState = reactAgent.getSessionState();
+    await sessionStore.saveSessionState(sessionId, currentState);
+    options?.onStep?.(currentState, stepResult);
+
+    if (stepResult.isDone) {
+      await sessionStore.completeSession(sessionId);
+      return {
+        sessionId,
+        state: currentState,
+        finalAnswer: stepResult.finalAnswer ?? null
+      };
+    }
+  }
+
+  throw new Error(`Analysis did not complete within ${maxSteps} steps`);
+}
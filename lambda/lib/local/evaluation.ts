@@ -0,0 +1,209 @@
+import { readFileSync, readdirSync } from "fs";
+import { basename, join } from "path";
+import { logger } from "../logger.js";
+import { ConfigurationService, HistoryCompressionMode } from "../configuration-service.js";
+import { AWSServiceFactory } from "../aws/aws-service-factory.js";
+import { BedrockService } from "../aws/services/bedrock-service.js";
+import { Fixture, FixtureBedrockService, FixtureReplayer, createFixtureServices } from "../aws/fixtures/fixture-services.js";
+import { AnalysisInput } from "../session-recording.js";
+import { runAgent } from "./agent-runner.js";
+import { findFirstDifference } from "./session-replay.js";
+import { StubBedrockService } from "./stub-model-service.js";
+
+/**
+ * Expected result of a scenario.
+ * Keywords are matched case-insensitively, and alternatives can be written as "timeout|ETIMEDOUT".
+ */
+export interface ExpectedResult {
+  rootCause: string[]; // Keywords that describe the root cause
+  evidence?: string[]; // Keywords of the key evidence such as error messages, metric names and times
+}
+
+/**
+ * Labelled incident scenario: fixture of the tool outputs with the expected result
+ */
+export interface EvaluationScenario extends Fixture {
+  name?: string;
+  input: AnalysisInput;
+  expected: ExpectedResult;
+}
+
+/**
+ * Whether a keyword appears in the final answer
+ */
+export interface KeywordMatch {
+  keyword: string;
+  found: boolean;
+}
+
+/**
+ * Evaluation result of a scenario
+ */
+export interface ScenarioResult {
+  name: string;
+  passed: boolean; // All keywords of the root cause and the evidence appear
+  rootCause: KeywordMatch[];
+  evidence: KeywordMatch[];
+  cycles: number;
+  finalAnswer: string | null;
+  error?: string;
+}
+
+/**
+ * Evaluation report, which can be saved and used as the baseline of the next evaluation
+ */
+export interface EvaluationReport {
+  model: string;
+  historyCompression?: HistoryCompressionMode; // Not set in the reports created before the strategy was selectable
+  createdAt: string;
+  results: ScenarioResult[];
+}
+
+/**
+ * Change of a scenario result from the baseline
+ */
+export interface ScenarioComparison {
+  name: string;
+  passedBefore: boolean | null; // null when the scenario is not in the baseline
+  passedAfter: boolean;
+  foundKeywords: string[]; // Keywords found only in the current result
+  lostKeywords: string[]; // Keywords found only in the baseline
+  answerDifference?: { line: number; recorded: string; replayed: string };
+}
+
+/**
+ * Creates the model used by the agent for a scenario
+ */
+export type ModelBackend = (scenario: EvaluationScenario) => BedrockService;
+
+/**
+ * Available model backends. Add an entry to evaluate another model implementation
+ */
+export const MODEL_BACKENDS: Record<string, ModelBackend> = {
+  // Deterministic local model which needs no scripted replies
+  stub: () => new StubBedrockService(),
+  // Scripted replies in "responses.bedrock" of the scenario
+  replay: (scenario) => new FixtureBedrockService(new FixtureReplayer({ bedrock: scenario.responses.bedrock })),
+  // Bedrock model set in MODEL_ID
+  bedrock: () => new BedrockService()
+};
+
+/**
+ * Load the scenarios in the directory. JSON files without "expected" are ignored
+ * @param directory Directory of the scenario files
+ * @returns Scenarios (the name defaults to the file name)
+ */
+export function loadScenarios(directory: string): EvaluationScenario[] {
+  return readdirSync(directory)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => {
+      const scenario = JSON.parse(readFileSync(join(directory, file), "utf-8")) as EvaluationScenario;
+      return { ...scenario, name: scenario.name ?? basename(file, ".json") };
+    })
+    .filter(scenario => scenario.expected && scenario.input);
+}
+
+/**
+ * Run the agent for each scenario and score the final answers.
+ * The AWS services return the fixture of the scenario, and the model is created by the backend.
+ * @param scenarios Scenarios
+ * @param model Name of the model backend
+ * @param configService Configuration service
+ * @returns Evaluation report
+ */
+export async function runEvaluation(
+  scenarios: EvaluationScenario[],
+  model: string,
+  configService: ConfigurationService = ConfigurationService.getInstance()
+): Promise<EvaluationReport> {
+  const backend = MODEL_BACKENDS[model];
+  if (!backend) {
+    throw new Error(`Unknown model backend: ${model} (available: ${Object.keys(MODEL_BACKENDS).join(", ")})`);
+  }
+
+  // Each scenario starts from the same configuration
+  const baseConfig = configService.getConfig();
+  const results: ScenarioResult[] = [];
+
+  for (const scenario of scenarios) {
+    const name = scenario.name!;
+    logger.info("Evaluating scenario", { name, model });
+    configService.setConfig({ ...baseConfig, ...scenario.config });
+
+    const replayer = new FixtureReplayer({ ...scenario.responses, bedrock: undefined });
+    AWSServiceFactory.setServices({ ...createFixtureServices(replayer), bedrockService: backend(scenario) });
+
+    try {
+      const { state, finalAnswer } = await runAgent(scenario.input, { configService });
+      results.push({ name, ...scoreAnswer(finalAnswer ?? "", scenario.expected), cycles: state.cycleCount, finalAnswer });
+    } catch (error) {
+      results.push({
+        name,
+        ...scoreAnswer("", scenario.expected),
+        passed: false,
+        cycles: 0,
+        finalAnswer: null,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  configService.setConfig(baseConfig);
+  return { model, historyCompression: baseConfig.historyCompression, createdAt: new Date().toISOString(), results };
+}
+
+/**
+ * Score a final answer
+ * @param answer Final answer
+ * @param expected Expected result
+ * @returns Keyword matches and whether the answer passed
+ */
+export function scoreAnswer(
+  answer: string,
+  expected: ExpectedResult
+): { passed: boolean; rootCause: KeywordMatch[]; evidence: KeywordMatch[] } {
+  const normalizedAnswer = answer.toLowerCase();
+  const match = (keyword: string): KeywordMatch => ({
+    keyword,
+    found: keyword.split("|").some(alternative => normalizedAnswer.includes(alternative.trim().toLowerCase()))
+  });
+
+  const rootCause = expected.rootCause.map(match);
+  const evidence = (expected.evidence ?? []).map(match);
+  return {
+    passed: [...rootCause, ...evidence].every(keywordMatch => keywordMatch.found),
+    rootCause,
+    evidence
+  };
+}
+
+/**
+ * Compare the results with the baseline report
+ * @param report Current report
+ * @param baseline Baseline report
+ * @returns Comparison of each scenario in the current report
+ */
+export function compareWithBaseline(report: EvaluationReport, baseline: EvaluationReport): ScenarioComparison[] {
+  const foundKeywords = (result?: ScenarioResult) =>
+    new Set([...(result?.rootCause ?? []), ...(result?.evidence ?? [])].filter(match => match.found).map(match => match.keyword));
+
+  return report.results.map(result => {
+    const baselineResult = baseline.results.find(item => item.name === result.name);
+    const before = foundKeywords(baselineResult);
+    const after = foundKeywords(result);
+    const beforeAnswer = baselineResult?.finalAnswer ?? "";
+    const afterAnswer = result.finalAnswer ?? "";
+
+    return {
+      name: result.name,
+      passedBefore: baselineResult ? baselineResult.passed : null,
+      passedAfter: result.passed,
+      foundKeywords: [...after].filter(keyword => !before.has(keyword)),
+      lostKeywords: [...before].filter(keyword => !after.has(keyword)),
+      answerDifference: baselineResult && beforeAnswer !== afterAnswer
+        ? findFirstDifference(beforeAnswer, afterAnswer)
+        : undefined
+    };
+  });
+}
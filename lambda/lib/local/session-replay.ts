@@ -0,0 +1,148 @@
+import { SessionState, StepResult } from "../react-agent.js";
+import { ConfigurationService } from "../configuration-service.js";
+import { AWSServiceFactory } from "../aws/aws-service-factory.js";
+import { FixtureReplayer, createFixtureServices } from "../aws/fixtures/fixture-services.js";
+import { RecordedCall, SessionRecorder, createRecordingServices } from "../aws/fixtures/recording-services.js";
+import { SessionBundle } from "../session-recording.js";
+import { runAgent } from "./agent-runner.js";
+
+/**
+ * Difference between the recorded session and the replay
+ */
+export interface ReplayDifference {
+  kind: "action" | "observation" | "historyLength" | "finalAnswer" | "modelRequest";
+  index?: number; // Index of the history item or the model call
+  line?: number; // First different line (1-based)
+  recorded: string;
+  replayed: string;
+}
+
+/**
+ * Result of a replay
+ */
+export interface ReplayResult {
+  sessionId: string;
+  finalAnswer: string | null;
+  differences: ReplayDifference[]; // Differences of the agent behavior (actions, observations and final answer)
+  modelRequestChanges: ReplayDifference[]; // Changes of the requests to the model, expected when the prompts are changed
+  unusedCalls: Record<string, number>; // Recorded calls which were not replayed
+  error?: string;
+}
+
+/**
+ * Replay a recorded session through ReActAgent.
+ * The AWS services and the model return the recorded responses, so the run is deterministic and offline.
+ * Note that the services of AWSServiceFactory and the configuration are replaced for the process.
+ * @param bundle Recorded session
+ * @param options Configuration service and callback called after each step
+ * @returns Result of the replay
+ */
+export async function replaySessionBundle(
+  bundle: SessionBundle,
+  options?: {
+    configService?: ConfigurationService;
+    onStep?: (state: SessionState, stepResult: StepResult) => void;
+  }
+): Promise<ReplayResult> {
+  const configService = options?.configService ?? ConfigurationService.getInstance();
+  configService.setConfig(bundle.config);
+
+  // Record the replayed calls on top of the recorded responses to compare the model requests
+  const replayer = FixtureReplayer.fromRecordedCalls(bundle.calls);
+  const recorder = new SessionRecorder();
+  AWSServiceFactory.setServices(createRecordingServices(recorder, createFixtureServices(replayer)));
+
+  try {
+    const { state, finalAnswer } = await runAgent(bundle.input, {
+      sessionId: bundle.sessionId,
+      configService,
+      onStep: options?.onStep
+    });
+
+    return {
+      sessionId: bundle.sessionId,
+      finalAnswer,
+      differences: compareBehavior(bundle, state, finalAnswer),
+      modelRequestChanges: compareModelRequests(bundle.calls, recorder.takeCalls()),
+      unusedCalls: replayer.getRemainingCounts()
+    };
+  } catch (error) {
+    return {
+      sessionId: bundle.sessionId,
+      finalAnswer: null,
+      differences: [],
+      modelRequestChanges: compareModelRequests(bundle.calls, recorder.takeCalls()),
+      unusedCalls: replayer.getRemainingCounts(),
+      error: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Compare the actions, observations and final answer
+ */
+function compareBehavior(bundle: SessionBundle, state: SessionState, finalAnswer: string | null): ReplayDifference[] {
+  const differences: ReplayDifference[] = [];
+
+  const length = Math.min(bundle.history.length, state.history.length);
+  for (let i = 0; i < length; i++) {
+    const recorded = bundle.history[i];
+    const replayed = state.history[i];
+    if (recorded.action !== replayed.action) {
+      differences.push({ kind: "action", index: i, ...findFirstDifference(recorded.action, replayed.action) });
+    }
+    if (recorded.observation !== replayed.observation) {
+      differences.push({ kind: "observation", index: i, ...findFirstDifference(recorded.observation, replayed.observation) });
+    }
+  }
+  if (bundle.history.length !== state.history.length) {
+    differences.push({
+      kind: "historyLength",
+      recorded: String(bundle.history.length),
+      replayed: String(state.history.length)
+    });
+  }
+
+  if ((bundle.finalAnswer ?? "") !== (finalAnswer ?? "")) {
+    differences.push({ kind: "finalAnswer", ...findFirstDifference(bundle.finalAnswer ?? "", finalAnswer ?? "") });
+  }
+
+  return differences;
+}
+
+/**
+ * Compare the requests to the model in the order they were sent
+ */
+function compareModelRequests(recordedCalls: RecordedCall[], replayedCalls: RecordedCall[]): ReplayDifference[] {
+  const toRequest = (call?: RecordedCall) => call ? JSON.stringify(call.args[0], null, 2) : "";
+  const recordedRequests = recordedCalls.filter(call => call.service === "bedrock");
+  const replayedRequests = replayedCalls.filter(call => call.service === "bedrock");
+
+  const changes: ReplayDifference[] = [];
+  const length = Math.max(recordedRequests.length, replayedRequests.length);
+  for (let i = 0; i < length; i++) {
+    const recorded = toRequest(recordedRequests[i]);
+    const replayed = toRequest(replayedRequests[i]);
+    if (recorded !== replayed) {
+      changes.push({ kind: "modelRequest", index: i, ...findFirstDifference(recorded, replayed) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Find the first different line of two texts
+ */
+export function findFirstDifference(recorded: string, replayed: string): { line: number; recorded: string; replayed: string } {
+  const recordedLines = recorded.split("\n");
+  const replayedLines = replayed.split("\n");
+  let line = 0;
+  while (line < recordedLines.length && line < replayedLines.length && recordedLines[line] === replayedLines[line]) {
+    line++;
+  }
+  return {
+    line: line + 1,
+    recorded: recordedLines[line] ?? "",
+    replayed: replayedLines[line] ?? ""
+  };
+}
@@ -0,0 +1,141 @@
+import { ContentBlock, Message, ToolConfiguration } from "@aws-sdk/client-bedrock-runtime";
+import { BedrockService, Conversation, ConverseResult, ConverseWithToolsResult, KBResult } from "../aws/services/bedrock-service.js";
+import { AnalysisReport, EvidenceReference } from "../analysis-report.js";
+import { TokenUsage } from "../token-usage.js";
+
+// Lines which look like evidence of a failure
+const EVIDENCE_PATTERN = /error|exception|fail|timeout|timed out|throttl|denied|refused|unavailable|5\d\d|5xx/i;
+const MAX_EVIDENCE_LINES = 10;
+// Label of the tool observation in the history of the final answer prompt
+const EVIDENCE_LABEL_PATTERN = /^\[(E\d+)\]/;
+// Rough number of characters per token to report the usage
+const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Deterministic model for offline evaluation.
+ * It calls every available tool once and answers with the lines of the observations that look like evidence of a failure.
+ * The final answer is an analysis report which cites the lines with the evidence IDs of their observations.
+ * The answer does not depend on the prompts, so it is meant to check scenarios and the evaluation itself, not the prompts.
+ * The token usage is estimated from the length of the texts.
+ * Only the native tool use mode is supported.
+ */
+export class StubBedrockService extends BedrockService {
+  async converseWithUsage(input: string | Conversation): Promise<ConverseResult> {
+    const prompt = typeof input === "string" ? input : this.toText(input.messages);
+    // The final answer prompt has the observations in <AnalysisHistory>
+    const history = prompt.match(/<AnalysisHistory>([\s\S]*?)<\/AnalysisHistory>/)?.[1] ?? prompt;
+    const text = JSON.stringify(this.createReport(history), null, 2);
+    return { text, usage: this.estimateUsage(prompt, text) };
+  }
+
+  async converseWithTools(conversation: Conversation, toolConfig: ToolConfiguration): Promise<ConverseWithToolsResult> {
+    const lastMessage = conversation.messages[conversation.messages.length - 1];
+    const hasObservations = lastMessage?.content?.some(block => block.toolResult) ?? false;
+
+    const prompt = `${conversation.system ?? ""}\n${this.toText(conversation.messages)}\n${this.toObservationText(conversation.messages)}`;
+
+    // After the first observations, answer with the evidence
+    if (hasObservations) {
+      const content = this.createAnswer(this.toObservationText(conversation.messages));
+      return {
+        text: "<Thought>Collected data from all tools.</Thought>",
+        toolUses: [{
+          toolUseId: "stub-final-answer",
+          name: "final_answer",
+          input: { content }
+        }],
+        stopReason: "tool_use",
+        usage: this.estimateUsage(prompt, content)
+      };
+    }
+
+    // Call every tool once. Required string parameters get the error description
+    const errorDescription = this.toText(conversation.messages.slice(0, 1));
+    const toolUses = (toolConfig.tools ?? [])
+      .map(tool => tool.toolSpec!)
+      .filter(toolSpec => toolSpec.name !== "final_answer")
+      .map((toolSpec, index) => {
+        const schema = toolSpec.inputSchema?.json as { properties?: Record<string, { type?: string }>; required?: string[] } | undefined;
+        const input = Object.fromEntries(
+          (schema?.required ?? []).map(name => [name, schema?.properties?.[name]?.type === "string" ? errorDescription : undefined])
+        );
+        return { toolUseId: `stub-${index}`, name: toolSpec.name!, input };
+      });
+
+    return {
+      text: "<Thought>Collect data from all tools.</Thought>",
+      toolUses,
+      stopReason: "tool_use",
+      usage: this.estimateUsage(prompt, JSON.stringify(toolUses))
+    };
+  }
+
+  async retrieve(): Promise<KBResult[]> {
+    return [];
+  }
+
+  private createAnswer(observations: string): string {
+    const evidence = [...new Set(
+      observations.split("\n")
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && EVIDENCE_PATTERN.test(line))
+    )].slice(0, MAX_EVIDENCE_LINES);
+
+    return evidence.length > 0
+      ? `## Root cause\n\n${evidence.map(line => `- ${line}`).join("\n")}`
+      : "## Root cause\n\nNo evidence was found.";
+  }
+
+  private createReport(history: string): AnalysisReport {
+    const evidence: EvidenceReference[] = [];
+    let evidenceId: string | undefined;
+    for (const line of history.split("\n").map(line => line.trim())) {
+      const labelMatch = line.match(EVIDENCE_LABEL_PATTERN);
+      if (labelMatch) {
+        evidenceId = labelMatch[1];
+      } else if (evidenceId !== undefined && line.length > 0 && EVIDENCE_PATTERN.test(line)
+        && !evidence.some(item => item.description === line)) {
+        evidence.push({ evidenceId, description: line });
+      }
+    }
+
+    return {
+      summary: evidence.length > 0 ? `Errors were found in the collected data [${evidence[0].evidenceId}].` : "No evidence was found.",
+      severity: evidence.length > 0 ? "high" : "low",
+      impact: "Unknown",
+      rootCauses: [{
+        description: evidence.length > 0 ? evidence[0].description : "No evidence was found.",
+        confidence: evidence.length > 0 ? "medium" : "low",
+        evidence: evidence.slice(0, MAX_EVIDENCE_LINES)
+      }],
+      timeline: [],
+      remediation: [],
+      prevention: [],
+      missingData: []
+    };
+  }
+
+  private estimateUsage(prompt: string, output: string): TokenUsage {
+    return {
+      inputTokens: Math.ceil(prompt.length / CHARACTERS_PER_TOKEN),
+      outputTokens: Math.ceil(output.length / CHARACTERS_PER_TOKEN),
+      cacheReadInputTokens: 0,
+      cacheWriteInputTokens: 0,
+      modelCalls: 1
+    };
+  }
+
+  private toObservationText(messages: Message[]): string {
+    return messages
+      .flatMap(message => message.content ?? [])
+      .flatMap((block: ContentBlock) => (block.toolResult?.content ?? []).map(content => content.text ?? ""))
+      .join("\n");
+  }
+
+  private toText(messages: Message[]): string {
+    return messages
+      .flatMap(message => message.content ?? [])
+      .map((block: ContentBlock) => block.text ?? "")
+      .join("\n");
+  }
+}
@@ -49,6 +49,20 @@ export interface FormTemplate extends MessageTemplate {
   callbackId?: string;
 }
 
+/**
+ * Operation on an analysis session from the buttons of a message
+ */
+export type SessionAction = "cancel" | "resume" | "rerun";
+
+/**
+ * Value of the session operation buttons, which has what is needed to start the analysis again
+ */
+export interface SessionActionValue {
+  sessionId: string;
+  startDate: string;
+  endDate: string;
+}
+
 /**
  * Structure for search result items
  */
@@ -1,8 +1,10 @@
 import { AbstractTemplateProvider } from './abstract-template-provider.js';
-import { MessageTemplate, FormTemplate, RetrieveResultItem, MessageBlock, RichTextElement } from '../interfaces/template-provider.interface.js';
+import { MessageTemplate, FormTemplate, RetrieveResultItem, MessageBlock, RichTextElement, SessionAction, SessionActionValue } from '../interfaces/template-provider.interface.js';
 import { I18nProvider } from '../providers/i18n-provider.js';
 import { ConfigProvider } from '../providers/config-provider.js';
-import { ToolAction } from '../../react-agent.js';
+import { Hypothesis, ToolAction, ToolResultSummary } from '../../react-agent.js';
+import { ToolResultStatus } from '../../tools-registry.js';
+import { AnalysisReport, CitedEvidence, ReportLevel, isUncitedClaim, isUncitedHypothesis } from '../../analysis-report.js';
 
 /**
  * Generic template provider class
@@ -156,6 +158,118 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
     };
   }
   
+  /**
+   * Generate message template with the buttons to operate the analysis session
+   * @param message Message text
+   * @param actions Operations shown as buttons
+   * @param value Session of the operations
+   * @returns Message template
+   */
+  createSessionActionsTemplate(message: string, actions: SessionAction[], value: SessionActionValue): MessageTemplate {
+    const buttons: Record<SessionAction, MessageBlock> = {
+      cancel: {
+        type: "button",
+        text: this.i18n.translate("cancelSessionButtonText"),
+        style: "danger",
+        actionId: "cancel_session",
+        value: JSON.stringify(value)
+      },
+      resume: {
+        type: "button",
+        text: this.i18n.translate("resumeSessionButtonText"),
+        style: "primary",
+        actionId: "resume_session",
+        value: JSON.stringify(value)
+      },
+      rerun: {
+        type: "button",
+        text: this.i18n.translate("rerunSessionButtonText"),
+        actionId: "rerun_session",
+        value: JSON.stringify(value)
+      }
+    };
+    
+    return {
+      blocks: [
+        {
+          type: "section",
+          text: message
+        },
+        {
+          type: "actions",
+          elements: actions.map(action => buttons[action])
+        }
+      ]
+    };
+  }
+  
+  /**
+   * Generate summary template of the analysis report
+   * The details such as the timeline are in the Markdown snippet of the report
+   * @param report Analysis report
+   * @param citedEvidence Observations cited by the report
+   * @returns Analysis report template
+   */
+  createAnalysisReportTemplate(report: AnalysisReport, citedEvidence: CitedEvidence[] = []): MessageTemplate {
+    const level = (value: ReportLevel) => this.i18n.translate(
+      value === "high" ? "reportLevelHigh" : value === "medium" ? "reportLevelMedium" : "reportLevelLow"
+    );
+    const flagUncited = (text: string) => isUncitedClaim(text) ? `${text} ${this.i18n.translate("reportUncitedClaim")}` : text;
+    
+    const rootCauses = report.rootCauses.map((hypothesis, index) => {
+      const evidence = hypothesis.evidence
+        .map(item => `  • \`${item.evidenceId}\` ${item.description}`)
+        .join("\n");
+      const uncited = isUncitedHypothesis(hypothesis) ? ` ${this.i18n.translate("reportUncitedClaim")}` : "";
+      return `${index + 1}. ${hypothesis.description}${uncited}\n` +
+        `  _${this.i18n.translate("reportConfidenceLabel")}: ${level(hypothesis.confidence)}_` +
+        (evidence ? `\n${evidence}` : "");
+    }).join("\n");
+    
+    const blocks: MessageBlock[] = [
+      {
+        type: "header",
+        text: this.i18n.translate("analysisReportTitle")
+      },
+      {
+        type: "section",
+        text: `${flagUncited(report.summary)}\n\n*${this.i18n.translate("reportSeverityLabel")}:* ${level(report.severity)}`
+      },
+      {
+        type: "section",
+        text: `*${this.i18n.translate("reportRootCausesLabel")}*\n${rootCauses}`
+      }
+    ];
+    
+    if (report.remediation.length > 0) {
+      blocks.push({
+        type: "section",
+        text: `*${this.i18n.translate("reportRemediationLabel")}*\n${report.remediation.map(item => `• ${flagUncited(item)}`).join("\n")}`
+      });
+    }
+    
+    if (citedEvidence.length > 0) {
+      const footnotes = citedEvidence.map(evidence => {
+        const cycle = evidence.cycle === undefined ? "" : this.i18n.formatTranslation("reportFootnoteCycle", evidence.cycle);
+        return `\`${evidence.evidenceId}\` *${evidence.tool}*${cycle} \`${JSON.stringify(evidence.parameters)}\`\n> ${evidence.excerpt}`;
+      }).join("\n");
+      blocks.push(
+        { type: "divider" },
+        {
+          type: "section",
+          text: `*${this.i18n.translate("reportCitedObservationsLabel")}*\n${footnotes}`
+        }
+      );
+    }
+    
+    // Slack limits the text of a section block to 3000 characters
+    return {
+      blocks: blocks.map(block => block.type === "section" && block.text!.length > 3000
+        ? { ...block, text: block.text!.substring(0, 2997) + "..." }
+        : block)
+    };
+  }
+  
   /**
    * Generate error message template
    * @returns Error message template
@@ -204,8 +318,10 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
     reactState: {
       state: string;
       lastThinking?: string;
-      lastAction?: ToolAction;
-      lastObservation?: string;
+      lastActions?: ToolAction[];
+      lastObservations?: string[];
+      lastToolResults?: ToolResultSummary[];
+      hypotheses?: Hypothesis[];
       forcedCompletion?: boolean;
     }
   ): MessageTemplate {
@@ -216,13 +332,14 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
     switch (reactState.state) {
       case 'thinking':
         // Show observation result when current state is thinking
-        if (reactState.lastObservation) {
+        if (reactState.lastObservations && reactState.lastObservations.length > 0) {
+          const lastObservation = reactState.lastObservations.join("\n\n");
           elements.push({
             type: "rich_text_section",
             elements: [
               {
                 type: "text",
-                text: reactState.lastObservation.length < 3000 ? reactState.lastObservation : `${reactState.lastObservation.substring(0,3000)}...`,
+                text: lastObservation.length < 3000 ? lastObservation : `${lastObservation.substring(0,3000)}...`,
                 style: {
                   italic: true
                 }
@@ -230,6 +347,9 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
             ]
           });
         }
+        
+        // Whether each tool found data
+        elements.push(...this.createToolResultElements(reactState.lastToolResults));
 
         elements.push({
           type: "rich_text_section",
@@ -249,8 +369,11 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
         // Show thinking result when current state is acting
         if (reactState.lastThinking) {
           const thoughtMatch = reactState.lastThinking.match(/<Thought>([\s\S]*?)<\/Thought>/);
-          if (thoughtMatch) {
-            const thoughtContent = thoughtMatch[1].trim();
+          // In native tool use mode, thinking is plain text without <Thought> tags
+          const thoughtContent = thoughtMatch
+            ? thoughtMatch[1].trim()
+            : reactState.lastThinking.replace(/<Hypotheses>[\s\S]*?<\/Hypotheses>/, "").trim();
+          if (thoughtContent) {
             elements.push({
               type: "rich_text_section",
               elements: [
@@ -266,6 +389,8 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
           }
         }
         
+        // Hypotheses updated by the thinking
+        elements.push(...this.createHypothesesElements(reactState.hypotheses));
 
         elements.push({
           type: "rich_text_section",
@@ -284,7 +409,8 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
         
       case 'observing':
         // Show acting result when current state is observing
-        if (reactState.lastAction) {
+        // Multiple actions are executed in parallel in one cycle
+        for (const action of reactState.lastActions || []) {
           elements.push({
             type: "rich_text_section",
             elements: [
@@ -297,7 +423,7 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
               },
               {
                 type: "text",
-                text: `"${reactState.lastAction.tool}"`,
+                text: `"${action.tool}"`,
                 style: {
                   code: true
                 }
@@ -317,7 +443,7 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
               },
               {
                 type: "text",
-                text: JSON.stringify(reactState.lastAction.parameters, null, 2),
+                text: JSON.stringify(action.parameters, null, 2),
                 style: {
                   code: true
                 }
@@ -378,6 +504,8 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
           ]
         });
         
+        elements.push(...this.createHypothesesElements(reactState.hypotheses));
+        
         if (reactState.lastThinking) {
           const thoughtMatch = reactState.lastThinking.match(/<FinalAnswer>([\s\S]*?)<\/FinalAnswer>/);
           if (thoughtMatch) {
@@ -449,6 +577,114 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
     };
   }
   
+  /**
+   * Generate the list of the tool results with their status
+   * @param toolResults Status of the tool results in the last cycle
+   * @returns Rich text elements (empty when there is no tool result)
+   */
+  private createToolResultElements(toolResults?: ToolResultSummary[]): RichTextElement[] {
+    if (!toolResults || toolResults.length === 0) {
+      return [];
+    }
+    
+    const statusEmoji: Record<ToolResultStatus, string> = {
+      [ToolResultStatus.DATA]: "white_check_mark",
+      [ToolResultStatus.NO_DATA]: "heavy_minus_sign",
+      [ToolResultStatus.ERROR]: "warning"
+    };
+    const statusLabel: Record<ToolResultStatus, string> = {
+      [ToolResultStatus.DATA]: this.i18n.translate("toolResultData"),
+      [ToolResultStatus.NO_DATA]: this.i18n.translate("toolResultNoData"),
+      [ToolResultStatus.ERROR]: this.i18n.translate("toolResultError")
+    };
+    
+    return [
+      {
+        type: "rich_text_list",
+        style: "bullet",
+        elements: toolResults.map(result => ({
+          type: "rich_text_section",
+          elements: [
+            {
+              type: "emoji",
+              name: statusEmoji[result.status] ?? "grey_question"
+            },
+            {
+              type: "text",
+              text: ` ${result.tool}`,
+              style: {
+                code: true
+              }
+            },
+            {
+              type: "text",
+              text: ` ${statusLabel[result.status] ?? result.status}` +
+                (result.status === ToolResultStatus.DATA && result.itemCount !== undefined
+                  ? ` (${this.i18n.formatTranslation("toolResultItemCount", result.itemCount)})`
+                  : "")
+            }
+          ]
+        }))
+      }
+    ];
+  }
+  
+  /**
+   * Generate the list of hypotheses with their status
+   * @param hypotheses Hypotheses of the session
+   * @returns Rich text elements (empty when there is no hypothesis)
+   */
+  private createHypothesesElements(hypotheses?: Hypothesis[]): RichTextElement[] {
+    if (!hypotheses || hypotheses.length === 0) {
+      return [];
+    }
+    
+    const statusEmoji: Record<string, string> = {
+      open: "grey_question",
+      supported: "white_check_mark",
+      refuted: "x"
+    };
+    
+    return [
+      {
+        type: "rich_text_section",
+        elements: [
+          {
+            type: "text",
+            text: this.i18n.translate("hypothesesLabel"),
+            style: {
+              bold: true
+            }
+          }
+        ]
+      },
+      {
+        type: "rich_text_list",
+        style: "bullet",
+        elements: hypotheses.map(hypothesis => ({
+          type: "rich_text_section",
+          elements: [
+            {
+              type: "emoji",
+              name: statusEmoji[hypothesis.status] ?? "grey_question"
+            },
+            {
+              type: "text",
+              text: ` ${hypothesis.id}: ${hypothesis.description}`
+            },
+            ...(hypothesis.evidenceIds.length > 0 ? [{
+              type: "text",
+              text: ` (${hypothesis.evidenceIds.join(", ")})`,
+              style: {
+                code: true
+              }
+            }] : [])
+          ]
+        }))
+      }
+    ];
+  }
+  
   /**
    * Generate duration selection options
    * @returns Array of duration selection options
@@ -458,7 +694,7 @@ export class GenericTemplateProvider extends AbstractTemplateProvider {
     
     for (let i = 1; i <= 14; i++) {
       options.push({
-        text: this.i18n.ifJaElseEn(`${i}日`, `${i} Day${i > 1 ? 's' : ''}`),
+        text: this.i18n.formatTranslation(i > 1 ? "insightDurationOptionDays" : "insightDurationOptionDay", i),
         value: i.toString()
       });
     }
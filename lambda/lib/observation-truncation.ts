@@ -0,0 +1,80 @@
+// Lines at the top of an observation, which usually have the title and the summary such as "Total of 20 logs found"
+const SUMMARY_LINE_COUNT = 5;
+// Lines longer than this share of the limit are cut, so that a single line does not use up the limit
+const MAX_LINE_SHARE = 0.25;
+// Headings and table separators keep the structure of the observation (the header row is the line before the separator)
+const HEADING_LINE_PATTERN = /^#{1,6}\s/;
+const TABLE_SEPARATOR_PATTERN = /^\|?(\s*:?-{3,}:?\s*\|)+\s*(:?-{3,}:?\s*)?$/;
+
+/**
+ * Truncate an observation longer than the limit
+ * The summary at the top, the headings and table headers, and the first and last rows are kept, and the omitted lines are replaced with a marker
+ * @param text Observation text
+ * @param maxLength Maximum number of characters
+ * @param omittedMarker Creates the marker of the omitted lines from their number
+ * @returns Text within the limit (the text as it is when it is not longer than the limit)
+ */
+export function truncateObservation(text: string, maxLength: number, omittedMarker: (lineCount: number) => string): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const maxLineLength = Math.max(Math.floor(maxLength * MAX_LINE_SHARE), 1);
+  const lines = text.split("\n").map(line => line.length > maxLineLength ? line.substring(0, maxLineLength) + "..." : line);
+  // Room for the markers between the kept lines
+  const budget = maxLength - omittedMarker(lines.length).length * 2 - 2;
+  const selected = new Set<number>();
+  let used = 0;
+  const select = (index: number): boolean => {
+    if (selected.has(index)) {
+      return true;
+    }
+    if (used + lines[index].length + 1 > budget) {
+      return false;
+    }
+    selected.add(index);
+    used += lines[index].length + 1;
+    return true;
+  };
+
+  // Summary and structure first, then the rows from both ends
+  lines.slice(0, SUMMARY_LINE_COUNT).forEach((_, index) => select(index));
+  lines.forEach((line, index) => {
+    if (HEADING_LINE_PATTERN.test(line.trim())) {
+      select(index);
+    } else if (TABLE_SEPARATOR_PATTERN.test(line.trim()) && index > 0) {
+      select(index - 1);
+      select(index);
+    }
+  });
+  let first = 0;
+  let last = lines.length - 1;
+  while (first <= last) {
+    const firstSelected = select(first++);
+    const lastSelected = first <= last ? select(last--) : false;
+    if (!firstSelected && !lastSelected) {
+      break;
+    }
+  }
+
+  const output: string[] = [];
+  let omitted = 0;
+  lines.forEach((line, index) => {
+    if (!selected.has(index)) {
+      omitted++;
+      return;
+    }
+    if (omitted > 0) {
+      output.push(omittedMarker(omitted));
+      omitted = 0;
+    }
+    output.push(line);
+  });
+  if (omitted > 0) {
+    output.push(omittedMarker(omitted));
+  }
+
+  const truncated = output.join("\n");
+  // Structure lines alone may exceed the limit when the observation has a lot of them
+  return truncated.length <= maxLength ? truncated : truncated.substring(0, maxLength);
+}
@@ -1,15 +1,39 @@
+import { ContentBlock, Message, ToolUseBlock } from "@aws-sdk/client-bedrock-runtime";
 import { Prompt } from "./prompt.js";
-import { ToolRegistry } from "./tools-registry.js";
+import { ToolCircuitState, ToolDisabledError, ToolRegistry, ToolResultStatus } from "./tools-registry.js";
+import { ToolParameterValidationError } from "./tool-schema.js";
+import { CachedToolResult } from "./tool-result-cache.js";
 import { logger } from "./logger.js";
 import { AWSServiceFactory } from "./aws/aws-service-factory.js";
-import { BedrockService } from "./aws/services/bedrock-service.js";
+import { BedrockService, Conversation } from "./aws/services/bedrock-service.js";
 import { BedrockThrottlingError } from "./aws/errors/aws-error.js";
+import { ToolUseMode } from "./configuration-service.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+import { TokenUsage, UsageBudget, addTokenUsage, isBudgetExceeded } from "./token-usage.js";
+import { HistoryCompressionStrategy, HistoryDigest, TruncationStrategy, groupHistoryByCycle } from "./history-compression.js";
+import {
+  AnalysisReport,
+  collectCitedEvidence,
+  findCitations,
+  findCitingTexts,
+  parseAnalysisReport,
+  renderAnalysisReport,
+  renderEvidenceFootnotes
+} from "./analysis-report.js";
+
+// Observations needed to finish the investigation early with a supported hypothesis
+const MIN_SUPPORTING_EVIDENCE = 2;
+// The session state without the history is saved in one DynamoDB item (up to 400KB), with room for the attribute overhead
+const MAX_SESSION_STATE_BYTES = 350 * 1024;
 
 export interface HistoryItem {
   thinking: string;
   action: string;
   observation: string;
   timestamp: number;
+  toolUseId?: string; // native tool use mode only
+  cycle?: number; // Cycle in which the action was executed. Actions executed in parallel share the same cycle
+  evidenceId?: string; // Stable ID which the final answer cites, such as "E3" (tool observations only)
 }
 
 export enum ReactionState {
@@ -20,15 +44,45 @@ export enum ReactionState {
   COMPLETED = 'completed'
 }
 
+// Status of the session controlled from outside of the agent (e.g. cancel and resume from Slack)
+export enum SessionStatus {
+  RUNNING = 'running',
+  CANCELLED = 'cancelled',
+  FAILED = 'failed'
+}
+
 export interface ToolAction {
   tool: string;
   parameters: Record<string, unknown>;
+  toolUseId?: string; // native tool use mode only
+}
+
+export enum HypothesisStatus {
+  OPEN = 'open',
+  SUPPORTED = 'supported',
+  REFUTED = 'refuted'
+}
+
+// Suspected cause of the failure, which the thinking step updates every cycle
+export interface Hypothesis {
+  id: string; // e.g. "H1"
+  description: string;
+  status: HypothesisStatus;
+  evidenceIds: string[]; // Evidence IDs of the observations which support or refute the hypothesis
+}
+
+// Outcome of a tool execution kept in the session state (the raw payload is not saved)
+export interface ToolResultSummary {
+  tool: string;
+  status: ToolResultStatus;
+  itemCount?: number;
 }
 
 export interface SessionState {
   context: string;
   history: HistoryItem[];
   finalAnswer: string | null;
+  report?: AnalysisReport; // 構造化された最終回答（検証に失敗した場合は未設定で、finalAnswerのみ）
   state: ReactionState;
   cycleCount: number;
   dataCollectionStatus: {
@@ -39,18 +93,58 @@ export interface SessionState {
     knowledgeBase: boolean;
   };
   lastThinking?: string;
-  lastAction?: ToolAction;
-  lastObservation?: string;
+  lastActions?: ToolAction[];
+  lastObservations?: string[];
+  lastToolResults?: ToolResultSummary[]; // lastObservationsと同じ順序のツール実行結果のステータス
   missingData?: string[];
+  hypotheses?: Hypothesis[]; // 調査中の仮説（思考ステップごとにモデルが更新）
   forcedCompletion?: boolean; // 強制完了フラグ
+  status?: SessionStatus; // セッションのステータス（未設定の場合は実行中）
+  maxAgentCycles?: number; // このセッションの最大サイクル数（サイクルを追加して再実行した場合は設定値より大きい）
+  tokenUsage?: TokenUsage; // このセッションのモデル呼び出しで消費したトークン数（追加の質問を含む累計）
+  historyDigests?: HistoryDigest[]; // 会話から外れたサイクルの要約（履歴の圧縮方式がsummarizeの場合のみ）
+  toolCircuit?: ToolCircuitState; // ツールの連続失敗回数と、失敗が続いたため無効にしたツール
+  toolResultCache?: Record<string, CachedToolResult>; // 同じパラメータのツール呼び出しで再利用する実行結果
+  version?: number; // 保存された回数（セッションストアが楽観的排他制御に使用、新規セッションは未設定）
 }
 
 export interface StepResult {
   isDone: boolean;
+  stopped?: boolean; // The step was not executed because the session was cancelled or failed
   finalAnswer?: string;
+  report?: AnalysisReport; // Set when the final answer was a valid report
   currentState?: SessionState;
 }
 
+// Result of a thinking step, independent of the tool use mode
+interface ThinkingResult {
+  thinking: string;
+  actions: ToolAction[];
+  finalAnswer: string | null;
+}
+
+/**
+ * Create the state of a new session, before its first step
+ * @param context Description of the failure to analyze
+ */
+export function createInitialSessionState(context: string): SessionState {
+  return {
+    context,
+    history: [],
+    finalAnswer: null,
+    state: ReactionState.THINKING,
+    cycleCount: 0,
+    dataCollectionStatus: {
+      metrics: false,
+      logs: false,
+      changeHistory: false,
+      xray: false,
+      knowledgeBase: false
+    },
+    missingData: []
+  };
+}
+
 export class ReActAgent {
   private sessionId: string;
   private sessionState: SessionState;
@@ -58,36 +152,45 @@ export class ReActAgent {
   private prompt: Prompt;
   private bedrockService: BedrockService;
   private maxAgentCycles: number;
+  private toolUseMode: ToolUseMode;
+  private i18n: I18nProvider;
+  private budget?: UsageBudget;
+  private historyCompression: HistoryCompressionStrategy;
   
   constructor(
     sessionId: string, 
     initialContext: string, 
     toolRegistry: ToolRegistry, 
     prompt: Prompt,
-    options?: { maxAgentCycles?: number }
+    options?: {
+      maxAgentCycles?: number;
+      toolUseMode?: ToolUseMode;
+      i18n?: I18nProvider;
+      budget?: UsageBudget;
+      historyCompression?: HistoryCompressionStrategy;
+    }
   ) {
     this.sessionId = sessionId;
-    this.sessionState = {
-      context: initialContext,
-      history: [],
-      finalAnswer: null,
-      state: ReactionState.THINKING,
-      cycleCount: 0,
-      dataCollectionStatus: {
-        metrics: false,
-        logs: false,
-        changeHistory: false,
-        xray: false,
-        knowledgeBase: false
-      },
-      missingData: []
-    };
+    this.sessionState = createInitialSessionState(initialContext);
     this.toolRegistry = toolRegistry;
     this.prompt = prompt;
     this.bedrockService = AWSServiceFactory.getBedrockService();
     
     // Default value is 5, can be overridden with options
     this.maxAgentCycles = options?.maxAgentCycles ?? 5;
+    this.sessionState.maxAgentCycles = this.maxAgentCycles;
+    
+    // Native tool use by default, XML parsing for models without tool use support
+    this.toolUseMode = options?.toolUseMode ?? "native";
+    
+    // Messages in the history and the answer follow the language of the prompts
+    this.i18n = options?.i18n ?? prompt.i18n;
+    
+    // No limit of the tokens and the cost by default
+    this.budget = options?.budget;
+    
+    // Older cycles are truncated by default
+    this.historyCompression = options?.historyCompression ?? new TruncationStrategy(prompt);
   }
   
   // initializeWithThinking関数は削除
@@ -97,9 +200,51 @@ export class ReActAgent {
    */
   setSessionState(state: SessionState): void {
     this.sessionState = state;
+    // Tools disabled by repeated failures stay disabled in the following steps
+    this.toolRegistry.restoreCircuitState(state.toolCircuit);
+    this.toolRegistry.restoreResultCacheState(state.toolResultCache);
+    // The maximum cycles are kept in the session so that the configuration change does not affect running sessions
+    if (state.maxAgentCycles) {
+      this.maxAgentCycles = state.maxAgentCycles;
+    }
+  }
+  
+  /**
+   * Continue the completed analysis with a follow-up question.
+   * The previous answer and the question are added to the context, and the agent thinks again with the previous history
+   * @param question Follow-up question from the user
+   * @param additionalCycles Cycles allowed to answer the question
+   */
+  continueWithFollowUp(question: string, additionalCycles: number): void {
+    this.sessionState.context = this.prompt.createFollowUpContext(
+      this.sessionState.context,
+      this.sessionState.finalAnswer,
+      question
+    );
+    this.sessionState.finalAnswer = null;
+    this.sessionState.report = undefined;
+    this.sessionState.forcedCompletion = false;
+    this.sessionState.state = ReactionState.THINKING;
+    this.maxAgentCycles = this.sessionState.cycleCount + additionalCycles;
+    this.sessionState.maxAgentCycles = this.maxAgentCycles;
+    
+    logger.info("Continuing session with follow-up question", {
+      sessionId: this.sessionId,
+      cycleCount: this.sessionState.cycleCount,
+      maxAgentCycles: this.maxAgentCycles
+    });
   }
   
   async executeStep(): Promise<StepResult> {
+    // Do nothing for a session which was cancelled or failed while this step was waiting to be executed
+    if (this.sessionState.status === SessionStatus.CANCELLED || this.sessionState.status === SessionStatus.FAILED) {
+      logger.info("Session is not running, skipping step", { sessionId: this.sessionId, status: this.sessionState.status });
+      return {
+        isDone: true,
+        stopped: true
+      };
+    }
+    
     logger.info("Start executing step", { 
       sessionId: this.sessionId, 
       historyLength: this.sessionState.history.length,
@@ -120,7 +265,8 @@ export class ReActAgent {
       case ReactionState.COMPLETED:
         return {
           isDone: true,
-          finalAnswer: this.sessionState.finalAnswer || "分析が完了しましたが、結果を生成できませんでした。"
+          finalAnswer: this.sessionState.finalAnswer || this.i18n.translate("agentNoResult"),
+          report: this.sessionState.report
         };
       default:
         logger.error("Unknown state", { state: this.sessionState.state });
@@ -130,38 +276,43 @@ export class ReActAgent {
   }
   
   private async executeThinkingStep(): Promise<StepResult> {
-    logger.info("Executing thinking step", { sessionId: this.sessionId });
+    logger.info("Executing thinking step", { sessionId: this.sessionId, toolUseMode: this.toolUseMode });
+    // The observations are in the history now. They were kept until here only for the progress message of the observing step
+    delete this.sessionState.lastObservations;
     // 1. Thinking step - Send current state to LLM and decide next action
-    const thinking = await this.think();
+    const { thinking, actions, finalAnswer } = await this.think();
     logger.info("Thinking completed", { thinking });
+    this.updateHypotheses(thinking);
     
     // Determine whether to forcibly generate a final answer after a certain number of cycles
     const shouldForceCompletion = this.shouldForceCompletion();
+    // Finish the investigation early when it has converged on one hypothesis
+    const supportedHypothesis = shouldForceCompletion ? undefined : this.findClearlySupportedHypothesis();
   
     // Check if final answer is included
-    const finalAnswerMatch = thinking.match(/<FinalAnswer>([\s\S]*?)<\/FinalAnswer>/);
-    if (finalAnswerMatch || shouldForceCompletion) {
-      logger.info("FinalAnswer or ForceCompletion", {finalAnswer: JSON.stringify(finalAnswerMatch), forceCompletion: shouldForceCompletion})
-      // If final answer is included, process it as a special action "final_answer"
-      const finalAnswer = finalAnswerMatch ? finalAnswerMatch[1].trim() : "";
+    if (finalAnswer !== null || shouldForceCompletion || supportedHypothesis) {
+      logger.info("FinalAnswer or ForceCompletion", {finalAnswer, forceCompletion: shouldForceCompletion, supportedHypothesis})
 
       // Record "final_answer" as an action
       const finalAnswerAction = {
         tool: "final_answer",
         parameters: {
-          content: finalAnswer,
+          content: finalAnswer ?? "",
           dataCollectionStatus: this.sessionState.dataCollectionStatus,
-          missingData: this.sessionState.missingData
+          missingData: this.sessionState.missingData,
+          hypotheses: this.sessionState.hypotheses
         }
       };
 
       // 強制完了フラグを設定
-      this.sessionState.forcedCompletion = shouldForceCompletion && !finalAnswerMatch;
+      this.sessionState.forcedCompletion = shouldForceCompletion && finalAnswer === null;
 
       // Update state
-      const message = shouldForceCompletion && !finalAnswerMatch 
-        ? "最大分析サイクル数に達したため、現在の情報に基づいて最終回答を生成します。" 
-        : "最終回答を生成します。";
+      const message = finalAnswer !== null
+        ? this.i18n.translate("agentGenerateFinalAnswer")
+        : shouldForceCompletion
+          ? this.i18n.translate(this.isOverBudget() ? "agentBudgetReached" : "agentMaxCyclesReached")
+          : this.i18n.formatTranslation("agentHypothesisSupported", supportedHypothesis!.description);
 
       this.updateSessionState(thinking, JSON.stringify(finalAnswerAction, null, 2), message);
       this.sessionState.state = ReactionState.COMPLETING;
@@ -173,24 +324,25 @@ export class ReActAgent {
       };
     }
     
-    // Decide action
-    const action = this.decideAction(thinking);
-    logger.info("Action decided", { action });
+    logger.info("Actions decided", { actions });
     
-    if (!action) {
+    if (actions.length === 0) {
       logger.warn("No action could be extracted from thinking");
       // If action cannot be extracted, encourage thinking again
-      this.updateSessionState(thinking, "NO_ACTION_EXTRACTED", "行動を正しいフォーマットで指定できませんでした。再度考えてください。");
+      const retryMessage = this.toolUseMode === "native"
+        ? this.i18n.translate("agentNoToolCalled")
+        : this.i18n.translate("agentInvalidActionFormat");
+      this.updateSessionState(thinking, "NO_ACTION_EXTRACTED", retryMessage);
       return {
         isDone: false,
         currentState: this.sessionState
       };
     }
     
-    // Record action and update state
+    // Record actions and update state
     this.sessionState.state = ReactionState.ACTING;
     this.sessionState.lastThinking = thinking;
-    this.sessionState.lastAction = action;
+    this.sessionState.lastActions = actions;
     
     return {
       isDone: false,
@@ -200,10 +352,10 @@ export class ReActAgent {
   
   private async executeActingStep(): Promise<StepResult> {
     logger.info("Acting step", { sessionId: this.sessionId });
-    // Execute action decided in previous step
-    const action = this.sessionState.lastAction;
+    // Execute actions decided in previous step
+    const actions = this.sessionState.lastActions;
     
-    if (!action) {
+    if (!actions || actions.length === 0) {
       logger.error("No action found in acting step");
       this.sessionState.state = ReactionState.THINKING;
       return {
@@ -212,12 +364,14 @@ export class ReActAgent {
       };
     }
     
-    // Execute tool
-    const observation = await this.executeAction(action);
-    logger.info("Action executed", { observation });
+    // Execute tools concurrently
+    const results = await Promise.all(actions.map(action => this.executeAction(action)));
+    logger.info("Actions executed", { results });
     
-    // Record observation result and update state
-    this.sessionState.lastObservation = observation;
+    // Record observation results and update state
+    this.sessionState.lastObservations = results.map(result => result.observation);
+    this.sessionState.lastToolResults = results.map(result => result.summary);
+    this.sessionState.toolCircuit = this.toolRegistry.getCircuitState();
     this.sessionState.state = ReactionState.OBSERVING;
     
     return {
@@ -230,20 +384,20 @@ export class ReActAgent {
     logger.info("Observing step", { sessionId: this.sessionId });
     // Record thinking, action, and observation from previous step
     const thinking = this.sessionState.lastThinking;
-    const action = this.sessionState.lastAction;
-    const observation = this.sessionState.lastObservation;
+    const actions = this.sessionState.lastActions;
+    const observations = this.sessionState.lastObservations;
     
     // ここにデバッグログを追加
     logger.debug("executeObservingStep - データ確認", { 
       sessionId: this.sessionId,
       hasThinking: !!thinking,
-      hasAction: !!action,
-      hasObservation: observation !== undefined,
-      actionDetails: action ? JSON.stringify(action) : "なし",
-      observationPreview: observation ? observation.substring(0, 100) + "..." : "なし"
+      actionCount: actions?.length ?? 0,
+      observationCount: observations?.length ?? 0,
+      actionDetails: actions ? JSON.stringify(actions) : "なし",
+      observationPreview: observations ? observations.map(observation => observation.substring(0, 100) + "...") : "なし"
     });
     
-    if (!thinking || !action || observation === undefined) {
+    if (!thinking || !actions || !observations || actions.length !== observations.length) {
       logger.error("Missing data in observing step");
       this.sessionState.state = ReactionState.THINKING;
       return {
@@ -252,8 +406,16 @@ export class ReActAgent {
       };
     }
     
-    // Update session state
-    this.updateSessionState(thinking, JSON.stringify(action, null, 2), observation);
+    // Update session state (each action is recorded as its own history item)
+    actions.forEach((action, index) => {
+      this.updateSessionState(
+        thinking,
+        JSON.stringify(action, null, 2),
+        observations[index],
+        action.toolUseId,
+        this.sessionState.cycleCount
+      );
+    });
     
     // ここに履歴更新後のデバッグログを追加
     logger.debug("executeObservingStep - 履歴更新後", {
@@ -275,8 +437,7 @@ export class ReActAgent {
     
     // Clear temporary data
     delete this.sessionState.lastThinking;
-    delete this.sessionState.lastAction;
-    // delete this.sessionState.lastObservation;
+    delete this.sessionState.lastActions;
     
     return {
       isDone: false,
@@ -289,43 +450,61 @@ export class ReActAgent {
     // Create prompt for generating final answer
     const finalAnswerPrompt = this.prompt.createReactFinalAnswerPrompt(
       this.sessionState.context,
-      this.sessionState.history
+      this.sessionState.history,
+      this.sessionState.hypotheses
     );
     
     try {
       // Generate final answer
-      const finalAnswerResponse = await this.bedrockService.converse(finalAnswerPrompt);
-      const finalAnswer = finalAnswerResponse || "分析が完了しましたが、結果を生成できませんでした。";
-      logger.info("Completing step - final answer", { finalAnswer: finalAnswer });
+      const { text: finalAnswerResponse, usage } = await this.bedrockService.converseWithUsage(finalAnswerPrompt);
+      this.addTokenUsage(usage);
+      logger.info("Completing step - final answer", { finalAnswer: finalAnswerResponse });
+      
+      // Render the report as Markdown. Keep the raw answer when it is not a valid report
+      const history = this.sessionState.history;
+      const knownEvidenceIds = history
+        .map(item => item.evidenceId)
+        .filter((evidenceId): evidenceId is string => evidenceId !== undefined);
+      const { report, errors, warnings } = parseAnalysisReport(finalAnswerResponse, knownEvidenceIds);
+      if (!report) {
+        logger.warn("Final answer is not a valid analysis report, using it as is", { errors });
+      } else if (warnings.length > 0) {
+        logger.warn("Citations of unknown evidence were removed from the analysis report", { warnings });
+      }
+      const finalAnswer = report
+        ? renderAnalysisReport(report, this.prompt.language, history)
+        : finalAnswerResponse
+          ? finalAnswerResponse + renderEvidenceFootnotes(
+            collectCitedEvidence(findCitations(finalAnswerResponse), history, findCitingTexts([finalAnswerResponse])),
+            this.prompt.language
+          )
+          : this.i18n.translate("agentNoResult");
       
       // Record final answer
       this.sessionState.finalAnswer = finalAnswer;
+      this.sessionState.report = report ?? undefined;
       this.sessionState.state = ReactionState.COMPLETED;
       
       return {
         isDone: true,
-        finalAnswer
+        finalAnswer,
+        report: report ?? undefined
       };
     } catch (error) {
       // Return error message in case of throttling error
       if (error instanceof BedrockThrottlingError) {
         logger.warn("Bedrock API throttled during completing step", { error });
         
-        const throttlingMessage = "Bedrockのレート制限に達したため、最終回答の生成に失敗しました。これまでに収集した情報に基づいて、簡易的な回答を生成します。";
-        
         // Generate simplified final answer
         const simpleFinalAnswer = `
-## レート制限による分析中断
+${this.i18n.translate("agentThrottledReportTitle")}
 
-${throttlingMessage}
+${this.i18n.translate("agentThrottledReportMessage")}
 
-### 収集済みデータの概要
+${this.i18n.translate("agentCollectedDataTitle")}
 ${this.generateDataSummary()}
 
-### 推奨される対応
-1. しばらく待ってから再度分析を実行してください（1-2分程度）
-2. 分析対象の時間範囲を短くすることで、処理するデータ量を減らすことができます
-3. 特定のサービスやリソースに絞って分析を行うことも効果的です
+${this.i18n.translate("agentThrottledReportActions")}
 `;
         
         // Record final answer
@@ -350,23 +529,78 @@ ${this.generateDataSummary()}
     const { dataCollectionStatus } = this.sessionState;
     const collectedData = [];
     
-    if (dataCollectionStatus.metrics) collectedData.push("メトリクスデータ");
-    if (dataCollectionStatus.logs) collectedData.push("ログデータ");
-    if (dataCollectionStatus.changeHistory) collectedData.push("変更履歴データ");
-    if (dataCollectionStatus.xray) collectedData.push("X-Rayトレースデータ");
-    if (dataCollectionStatus.knowledgeBase) collectedData.push("Knowledge Baseデータ");
+    if (dataCollectionStatus.metrics) collectedData.push(this.i18n.translate("agentDataMetrics"));
+    if (dataCollectionStatus.logs) collectedData.push(this.i18n.translate("agentDataLogs"));
+    if (dataCollectionStatus.changeHistory) collectedData.push(this.i18n.translate("agentDataChangeHistory"));
+    if (dataCollectionStatus.xray) collectedData.push(this.i18n.translate("agentDataXray"));
+    if (dataCollectionStatus.knowledgeBase) collectedData.push(this.i18n.translate("agentDataKnowledgeBase"));
     
     if (collectedData.length === 0) {
-      return "データが収集されていません。";
+      return this.i18n.translate("agentNoDataCollected");
     }
     
-    return `以下のデータが収集されています：\n- ${collectedData.join('\n- ')}`;
+    return this.i18n.formatTranslation("agentCollectedDataList", collectedData.join('\n- '));
   }
   
   /**
-   * Determine whether to forcibly generate a final answer after a certain number of cycles
+   * Replace the hypotheses with the list in the thinking
+   * The previous list is kept when the thinking has no valid list
+   */
+  private updateHypotheses(thinking: string): void {
+    const hypothesesMatch = thinking.match(/<Hypotheses>([\s\S]*?)<\/Hypotheses>/);
+    if (!hypothesesMatch) {
+      logger.warn("No hypotheses in thinking", { sessionId: this.sessionId });
+      return;
+    }
+    
+    try {
+      const parsed = JSON.parse(hypothesesMatch[1]);
+      if (!Array.isArray(parsed)) {
+        throw new Error("Hypotheses must be an array");
+      }
+      
+      const statuses = Object.values(HypothesisStatus) as string[];
+      const knownEvidenceIds = new Set(this.sessionState.history.map(item => item.evidenceId).filter(Boolean));
+      this.sessionState.hypotheses = parsed
+        .filter(hypothesis => typeof hypothesis?.description === "string" && statuses.includes(hypothesis.status))
+        .map((hypothesis, index) => ({
+          id: typeof hypothesis.id === "string" ? hypothesis.id : `H${index + 1}`,
+          description: hypothesis.description,
+          status: hypothesis.status as HypothesisStatus,
+          // Drop citations of observations which do not exist
+          evidenceIds: Array.isArray(hypothesis.evidenceIds)
+            ? hypothesis.evidenceIds.filter((evidenceId: unknown) => typeof evidenceId === "string" && knownEvidenceIds.has(evidenceId))
+            : []
+        }));
+    } catch (error) {
+      logger.warn("Failed to parse hypotheses", { sessionId: this.sessionId, error });
+    }
+  }
+  
+  /**
+   * Find the hypothesis which is clearly supported:
+   * it is the only supported one, backed by multiple observations, and every other hypothesis is refuted
+   */
+  private findClearlySupportedHypothesis(): Hypothesis | undefined {
+    const hypotheses = this.sessionState.hypotheses ?? [];
+    const supported = hypotheses.filter(hypothesis => hypothesis.status === HypothesisStatus.SUPPORTED);
+    const open = hypotheses.filter(hypothesis => hypothesis.status === HypothesisStatus.OPEN);
+    
+    if (supported.length === 1 && open.length === 0 && supported[0].evidenceIds.length >= MIN_SUPPORTING_EVIDENCE) {
+      return supported[0];
+    }
+    return undefined;
+  }
+  
+  /**
+   * Determine whether to forcibly generate a final answer after a certain number of cycles or when the budget is used up
    */
   private shouldForceCompletion(): boolean {
+    // Stop the investigation regardless of the collected data, because more cycles only add to the cost
+    if (this.isOverBudget()) {
+      return true;
+    }
+    
     // If more than the maximum number of cycles have been executed
     if (this.sessionState.cycleCount >= this.maxAgentCycles) {
       // Check data collection status
@@ -380,75 +614,31 @@ ${this.generateDataSummary()}
     return false;
   }
   
-  private async think(): Promise<string> {
-    let prompt: string;
-    let logContext: Record<string, unknown> = {
-      sessionId: this.sessionId
-    };
-    
-    // 履歴がない場合は初期プロンプトを生成
-    if (this.sessionState.history.length === 0) {
-      // 初期プロンプトを生成
-      prompt = this.prompt.createReactInitialPrompt(
-        this.sessionState.context,
-        this.toolRegistry.getToolDescriptions()
-      );
-      
-      // ログコンテキストを設定
-      logContext = {
-        ...logContext,
-        promptLength: prompt.length,
-        promptType: "initial",
-        promptPreview: prompt.substring(0, 200) + "..."
-      };
-      
-      // デバッグログを追加
-      logger.debug("think - 初期プロンプト生成", logContext);
-    } else {
-      // 通常の思考プロセス
-      // 直前のサイクルの情報を明示的に追加
-      let contextualInfo = "";
-      const lastHistory = this.sessionState.history[this.sessionState.history.length - 1];
-      const toolName = this.extractToolName(lastHistory.action);
-      
-      contextualInfo = `【直前のサイクル情報】\n実行したツール: ${toolName}\n実行結果の概要: ${lastHistory.observation.substring(0, 200)}...\n\n`;
-      
-      const thinkingPrompt = this.prompt.createReactThinkingPrompt(
-        this.sessionState.context,
-        this.sessionState.history,
-        this.toolRegistry.getToolDescriptions(),
-        this.sessionState.cycleCount
-      );
-      
-      // コンテキスト情報を追加したプロンプト
-      prompt = contextualInfo + thinkingPrompt;
-      
-      // ログコンテキストを設定
-      logContext = {
-        ...logContext,
-        promptLength: prompt.length,
-        promptType: "thinking",
-        historyLength: this.sessionState.history.length,
-        cycleCount: this.sessionState.cycleCount,
-        promptPreview: prompt.substring(0, 200) + "..."
-      };
-      
-      // デバッグログを追加
-      logger.debug("think - 生成されたプロンプト", logContext);
+  /**
+   * Whether the session has used up the token or cost budget
+   */
+  private isOverBudget(): boolean {
+    return isBudgetExceeded(this.sessionState.tokenUsage, this.budget);
+  }
+  
+  /**
+   * Add the token usage of a model call to the session
+   * Calls without the usage (e.g. replayed from old recordings) are not counted
+   */
+  private addTokenUsage(usage: TokenUsage | undefined): void {
+    if (!usage) {
+      return;
     }
-    
+    this.sessionState.tokenUsage = addTokenUsage(this.sessionState.tokenUsage, usage);
+    logger.info("Token usage", { sessionId: this.sessionId, usage, total: this.sessionState.tokenUsage });
+  }
+  
+  private async think(): Promise<ThinkingResult> {
     try {
-      // LLMに問い合わせ
-      const response = await this.bedrockService.converse(prompt);
-      
-      // レスポンスのデバッグログ
-      logger.debug("think - LLMからのレスポンス", {
-        ...logContext,
-        responseLength: response ? response.length : 0,
-        responsePreview: response ? response.substring(0, 200) + "..." : "レスポンスなし"
-      });
-      
-      return response || "";
+      if (this.toolUseMode === "native") {
+        return await this.thinkWithTools();
+      }
+      return this.parseXmlThinking(await this.thinkWithXml());
     } catch (error) {
       // エラーハンドリング（共通化）
       if (error instanceof BedrockThrottlingError) {
@@ -462,21 +652,22 @@ ${this.generateDataSummary()}
         
         // 初期思考か通常の思考かに応じてエラーメッセージを変更
         const thoughtContent = isInitialThinking
-          ? "Bedrockのレート制限に達しました。しばらく待ってから再試行してください。"
-          : "Bedrockのレート制限に達しました。しばらく待ってから再試行してください。\n現在の情報に基づいて分析を続けます。";
+          ? this.i18n.translate("agentThrottled")
+          : this.i18n.translate("agentThrottledContinue");
+        const finalAnswerAction = {
+          tool: "final_answer",
+          parameters: {
+            content: this.i18n.translate(isInitialThinking ? "agentThrottledStartFailed" : "agentThrottledCompleteFailed")
+          }
+        };
         
-        return `<Thought>
+        return this.parseXmlThinking(`<Thought>
 ${thoughtContent}
 </Thought>
 
 <Action>
-{
-  "tool": "final_answer",
-  "parameters": {
-    "content": "Bedrockのレート制限に達したため、分析を${isInitialThinking ? '開始' : '完了'}できませんでした。しばらく待ってから再試行してください。"
-  }
-}
-</Action>`;
+${JSON.stringify(finalAnswerAction, null, 2)}
+</Action>`);
       }
       
       // その他のエラーは再スロー
@@ -484,90 +675,345 @@ ${thoughtContent}
     }
   }
   
-  // ツール名を抽出するヘルパーメソッド
-  private extractToolName(action: string): string {
-    try {
-      const actionObj = JSON.parse(action);
-      return actionObj.tool || "不明なツール";
-    } catch {
-      // JSONパースに失敗した場合はそのまま
-      return "不明なツール";
+  /**
+   * Thinking with native tool use of the Converse API
+   * The history is replayed as toolUse/toolResult turns so the model sees structured observations
+   */
+  private async thinkWithTools(): Promise<ThinkingResult> {
+    const conversation = await this.buildConversation(this.prompt.createReactToolUseSystemPrompt());
+    
+    logger.debug("think - ツール利用モードのメッセージ生成", {
+      sessionId: this.sessionId,
+      messageCount: conversation.messages.length,
+      historyLength: this.sessionState.history.length,
+      cycleCount: this.sessionState.cycleCount
+    });
+    
+    const result = await this.bedrockService.converseWithTools(
+      conversation,
+      this.toolRegistry.getToolConfiguration()
+    );
+    this.addTokenUsage(result.usage);
+    
+    logger.debug("think - LLMからのツール利用レスポンス", {
+      sessionId: this.sessionId,
+      stopReason: result.stopReason,
+      toolUses: result.toolUses.map(toolUse => toolUse.name),
+      responsePreview: result.text.substring(0, 200) + "..."
+    });
+    
+    // final_answer takes precedence over other tool uses in the same response
+    const finalAnswerToolUse = result.toolUses.find(toolUse => toolUse.name === "final_answer");
+    if (finalAnswerToolUse) {
+      const content = String(finalAnswerToolUse.input.content ?? "");
+      // Keep the final answer in the thinking text so that it is shown in the same way as the XML mode
+      return {
+        thinking: `${result.text}\n\n<FinalAnswer>\n${content}\n</FinalAnswer>`,
+        actions: [],
+        finalAnswer: content
+      };
+    }
+    
+    if (result.toolUses.length > 0) {
+      return {
+        thinking: result.text,
+        actions: result.toolUses.map(toolUse => ({
+          tool: toolUse.name,
+          parameters: toolUse.input,
+          toolUseId: toolUse.toolUseId
+        })),
+        finalAnswer: null
+      };
     }
+    
+    // The model answered without calling a tool
+    const finalAnswerMatch = result.text.match(/<FinalAnswer>([\s\S]*?)<\/FinalAnswer>/);
+    return {
+      thinking: result.text,
+      actions: [],
+      finalAnswer: finalAnswerMatch ? finalAnswerMatch[1].trim() : null
+    };
   }
   
-  private decideAction(thinking: string): ToolAction | null {
-    // Extract action part
-    const actionMatch = thinking.match(/<Action>([\s\S]*?)<\/Action>/);
-    if (!actionMatch) {
-      return null;
+  /**
+   * Build the conversation with the model from the session history
+   * In native tool use mode, actions are replayed as toolUse/toolResult turns, otherwise as XML text turns
+   * Older history is compressed by the history compression strategy
+   */
+  private async buildConversation(system: string): Promise<Conversation> {
+    const isNative = this.toolUseMode === "native";
+    const { recentHistory, summary, digests, usage } = await this.historyCompression.compress({
+      history: this.sessionState.history,
+      cycleCount: this.sessionState.cycleCount,
+      digests: this.sessionState.historyDigests ?? []
+    });
+    this.addTokenUsage(usage);
+    if (digests.length > 0) {
+      this.sessionState.historyDigests = digests;
+    }
+    
+    const messages: Message[] = [
+      {
+        role: "user",
+        content: [{ text: this.prompt.createReactInitialMessage(this.sessionState.context, summary) }]
+      }
+    ];
+    
+    for (const items of groupHistoryByCycle(recentHistory)) {
+      const thinking = items[0].thinking;
+      const assistantContent: ContentBlock[] = thinking?.trim() ? [{ text: thinking }] : [];
+      const toolUses = isNative
+        ? items.map(item => ({ item, action: item.toolUseId ? this.parseAction(item.action) : null }))
+        : [];
+      
+      if (toolUses.length > 0 && toolUses.every(({ action }) => action !== null)) {
+        for (const { item, action } of toolUses) {
+          assistantContent.push({
+            toolUse: {
+              toolUseId: item.toolUseId!,
+              name: action!.tool,
+              input: action!.parameters as ToolUseBlock["input"]
+            }
+          });
+        }
+        messages.push({ role: "assistant", content: assistantContent });
+        messages.push({
+          role: "user",
+          content: items.map(item => ({
+            toolResult: {
+              toolUseId: item.toolUseId!,
+              content: [{ text: this.labelObservation(item) }]
+            }
+          }))
+        });
+      } else {
+        // Items without tool use (e.g. NO_ACTION_EXTRACTED) are replayed as plain text turns
+        messages.push({
+          role: "assistant",
+          content: assistantContent.length > 0 ? assistantContent : [{ text: items.map(item => item.action).join("\n") }]
+        });
+        messages.push({
+          role: "user",
+          content: [{
+            text: isNative
+              ? items.map(item => this.labelObservation(item)).join("\n\n")
+              : this.prompt.createReactObservationMessage(items.map(item => item.evidenceId ? this.labelObservation(item) : item.observation))
+          }]
+        });
+      }
+    }
+    
+    const reminder = isNative
+      ? this.prompt.createReactToolUseCycleReminder(this.sessionState.cycleCount)
+      : this.prompt.createReactCycleReminder(this.sessionState.cycleCount);
+    if (reminder) {
+      messages[messages.length - 1].content!.push({ text: reminder });
+    }
+    
+    return { system, messages };
+  }
+  
+  /**
+   * Prefix the observation with its evidence ID, which the hypotheses and the final answer cite
+   */
+  private labelObservation(item: HistoryItem): string {
+    const observation = item.observation || "-";
+    return item.evidenceId ? `[${item.evidenceId}]\n${observation}` : observation;
+  }
+  
+  /**
+   * Thinking with the XML prompt format (<Thought>/<Action>/<FinalAnswer>)
+   */
+  private async thinkWithXml(): Promise<string> {
+    const conversation = await this.buildConversation(
+      this.prompt.createReactSystemPrompt(this.toolRegistry.getToolDescriptions())
+    );
+    
+    const logContext = {
+      sessionId: this.sessionId,
+      messageCount: conversation.messages.length,
+      historyLength: this.sessionState.history.length,
+      cycleCount: this.sessionState.cycleCount
+    };
+    
+    // デバッグログを追加
+    logger.debug("think - 会話の生成", logContext);
+    
+    // LLMに問い合わせ
+    const { text: response, usage } = await this.bedrockService.converseWithUsage(conversation);
+    this.addTokenUsage(usage);
+    
+    // レスポンスのデバッグログ
+    logger.debug("think - LLMからのレスポンス", {
+      ...logContext,
+      responseLength: response ? response.length : 0,
+      responsePreview: response ? response.substring(0, 200) + "..." : "レスポンスなし"
+    });
+    
+    return response || "";
+  }
+  
+  /**
+   * Extract the final answer or the next action from the XML formatted thinking
+   */
+  private parseXmlThinking(thinking: string): ThinkingResult {
+    const finalAnswerMatch = thinking.match(/<FinalAnswer>([\s\S]*?)<\/FinalAnswer>/);
+    if (finalAnswerMatch) {
+      return { thinking, actions: [], finalAnswer: finalAnswerMatch[1].trim() };
+    }
+    
+    const actions = this.decideActions(thinking);
+    // final_answer is handled as a final answer, not as a tool to execute
+    const finalAnswerAction = actions.find(action => action.tool === "final_answer");
+    if (finalAnswerAction) {
+      return { thinking, actions: [], finalAnswer: String(finalAnswerAction.parameters?.content ?? "") };
     }
     
+    return { thinking, actions, finalAnswer: null };
+  }
+  
+  // 履歴に記録された行動のJSONをパースするヘルパーメソッド
+  private parseAction(action: string): ToolAction | null {
     try {
-      const actionJson = actionMatch[1].trim();
-      return JSON.parse(actionJson);
-    } catch (error) {
-      logger.error("Failed to parse action JSON", { error, actionText: actionMatch ? actionMatch[1] : "No match" });
+      const actionObj = JSON.parse(action);
+      return actionObj && typeof actionObj.tool === "string" ? actionObj : null;
+    } catch {
       return null;
     }
   }
   
-  private async executeAction(action: ToolAction): Promise<string> {
+  private decideActions(thinking: string): ToolAction[] {
+    // Extract action parts (multiple <Action> tags are executed in parallel)
+    const actions: ToolAction[] = [];
+    
+    for (const actionMatch of thinking.matchAll(/<Action>([\s\S]*?)<\/Action>/g)) {
+      try {
+        const actionJson = JSON.parse(actionMatch[1].trim());
+        // An array of actions in one tag is also accepted
+        actions.push(...(Array.isArray(actionJson) ? actionJson : [actionJson]));
+      } catch (error) {
+        logger.error("Failed to parse action JSON", { error, actionText: actionMatch[1] });
+      }
+    }
+    
+    return actions;
+  }
+  
+  private async executeAction(action: ToolAction): Promise<{ observation: string; summary: ToolResultSummary }> {
+    const toolName = action.tool;
     try {
-      const toolName = action.tool;
       const parameters = action.parameters || {};
       
-      // Execute tool
+      // Execute tool (the timeout and the maximum size of the result are set in the tool registry)
       const result = await this.toolRegistry.executeTool(toolName, parameters);
       
-      // 結果にツール名を明示的に含める
-      const markedResult = `【${toolName}の実行結果】\n${result}`;
-      
       // Update data collection status
-      this.updateDataCollectionStatus(toolName, markedResult);
+      this.updateDataCollectionStatus(toolName, result.status);
       
-      return markedResult;
+      // 結果にツール名を明示的に含める
+      return {
+        observation: `${this.i18n.formatTranslation("agentToolResultTitle", toolName)}\n` +
+          (result.cachedAt ? `${this.i18n.formatTranslation("agentToolResultCached", result.cachedAt)}\n` : "") +
+          `${result.summary}${this.createToolDisabledNotice(toolName)}`,
+        summary: { tool: toolName, status: result.status, itemCount: result.itemCount }
+      };
     } catch (error) {
+      if (error instanceof ToolDisabledError) {
+        return {
+          observation: this.i18n.formatTranslation("agentToolDisabled", toolName, error.failures),
+          summary: { tool: toolName, status: ToolResultStatus.ERROR }
+        };
+      }
+      if (error instanceof ToolParameterValidationError) {
+        // Return the errors with the schema so that the model can correct the parameters in the next cycle
+        const details = JSON.stringify({
+          tool: toolName,
+          errors: error.errors,
+          parameters: this.toolRegistry.getToolDescriptions().find(tool => tool.name === toolName)?.parameters
+        }, null, 2);
+        return {
+          observation: this.i18n.formatTranslation("agentToolParameterError", toolName, `\`\`\`json\n${details}\n\`\`\``),
+          summary: { tool: toolName, status: ToolResultStatus.ERROR }
+        };
+      }
       logger.error("Failed to execute tool", { error, action });
-      return `ツールの実行中にエラーが発生しました: ${error instanceof Error ? error.message : String(error)}`;
+      return {
+        observation: this.i18n.formatTranslation("agentToolExecutionError", error instanceof Error ? error.message : String(error)) +
+          this.createToolDisabledNotice(toolName),
+        summary: { tool: toolName, status: ToolResultStatus.ERROR }
+      };
+    }
+  }
+  
+  /**
+   * Tell the model that the tool has just been disabled by repeated failures
+   * @returns Notice appended to the observation, or an empty string when the tool is enabled
+   */
+  private createToolDisabledNotice(toolName: string): string {
+    if (!this.toolRegistry.isToolDisabled(toolName)) {
+      return "";
     }
+    const failures = this.toolRegistry.getCircuitState().failures[toolName] ?? 0;
+    return `\n\n${this.i18n.formatTranslation("agentToolDisabled", toolName, failures)}`;
   }
   
   /**
-   * Update data collection status based on tool name and execution result
+   * Update data collection status based on tool name and the status of its result
+   * Data collected in an earlier cycle stays collected even if a later call finds nothing
    */
-  private updateDataCollectionStatus(toolName: string, result: string): void {
+  private updateDataCollectionStatus(toolName: string, status: ToolResultStatus): void {
+    const collected = status === ToolResultStatus.DATA;
+    const dataCollectionStatus = this.sessionState.dataCollectionStatus;
+    
     // Update status based on tool name
     switch (toolName) {
       case 'metrics_tool':
-        this.sessionState.dataCollectionStatus.metrics = !result.includes("メトリクスデータが見つかりませんでした");
+        dataCollectionStatus.metrics = dataCollectionStatus.metrics || collected;
         break;
       case 'logs_tool':
-        this.sessionState.dataCollectionStatus.logs = !result.includes("条件に一致するログが見つかりませんでした");
+        dataCollectionStatus.logs = dataCollectionStatus.logs || collected;
         break;
       case 'change_history_tool':
       case 'audit_log_tool':
-        this.sessionState.dataCollectionStatus.changeHistory = !result.includes("変更履歴が見つかりませんでした");
+      case 'alb_log_tool':
+        dataCollectionStatus.changeHistory = dataCollectionStatus.changeHistory || collected;
         break;
       case 'xray_tool':
-        this.sessionState.dataCollectionStatus.xray = !result.includes("トレースが見つかりませんでした");
+        dataCollectionStatus.xray = dataCollectionStatus.xray || collected;
         break;
       case 'kb_tool':
-        this.sessionState.dataCollectionStatus.knowledgeBase = !result.includes("ナレッジベースに一致する情報が見つかりませんでした");
+        dataCollectionStatus.knowledgeBase = dataCollectionStatus.knowledgeBase || collected;
         break;
     }
   }
   
   
-  private updateSessionState(thinking: string, action: string, observation: string): void {
+  private updateSessionState(thinking: string, action: string, observation: string, toolUseId?: string, cycle?: number): void {
     this.sessionState.history.push({
       thinking,
       action,
       observation,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      toolUseId,
+      cycle,
+      // Tool observations get the next evidence ID, which does not change even if earlier history items are removed
+      evidenceId: cycle === undefined ? undefined : `E${this.getLastEvidenceNumber() + 1}`
     });
   }
   
+  private getLastEvidenceNumber(): number {
+    return this.sessionState.history.reduce(
+      (last, item) => item.evidenceId ? Math.max(last, Number(item.evidenceId.substring(1))) : last,
+      0
+    );
+  }
+  
   getSessionState(): SessionState {
+    // Cached tool results are kept only within the space left in the session item by the other fields
+    // The history is saved in its own items
+    const savedFields = { ...this.sessionState, history: undefined, toolResultCache: undefined };
+    const remainingBytes = MAX_SESSION_STATE_BYTES - Buffer.byteLength(JSON.stringify(savedFields));
+    this.sessionState.toolResultCache = this.toolRegistry.getResultCacheState(remainingBytes);
     return this.sessionState;
   }
 }
@@ -0,0 +1,103 @@
+import { Configuration, ConfigurationService } from "./configuration-service.js";
+import { HistoryItem, SessionState } from "./react-agent.js";
+import { RecordedCall } from "./aws/fixtures/recording-services.js";
+
+/**
+ * Input of the analysis
+ */
+export interface AnalysisInput {
+  errorDescription: string;
+  startDate: string;
+  endDate: string;
+  timezone?: string; // Timezone of the user who requested the analysis
+}
+
+/**
+ * Information to reproduce the recorded session, saved when the session starts
+ */
+export interface SessionRecordingMetadata {
+  input: AnalysisInput;
+  config: Partial<Configuration>;
+  recordedAt: string;
+}
+
+/**
+ * Portable bundle of a recorded session
+ */
+export interface SessionBundle extends SessionRecordingMetadata {
+  version: 1;
+  sessionId: string;
+  calls: RecordedCall[]; // Calls of the AWS services and the Bedrock model in the order they were started
+  history: HistoryItem[]; // Tool inputs and outputs of the agent
+  finalAnswer: string | null;
+}
+
+// Settings which change the registered tools and the prompts. Secrets and resource names of the deployment are not included
+const RECORDED_CONFIG_KEYS: (keyof Configuration)[] = [
+  "language",
+  "timezone",
+  "modelId",
+  "maxAgentCycles",
+  "tokenBudget",
+  "costBudget",
+  "modelPricing",
+  "toolUseMode",
+  "historyCompression",
+  "historyTokenLimit",
+  "summaryModelId",
+  "toolTimeouts",
+  "maxObservationLength",
+  "toolFailureThreshold",
+  "toolResultCache",
+  "maxLookbackMinutes",
+  "cwLogsLogGroups",
+  "cwLogsInsightQuery",
+  "athenaDatabase",
+  "albAccessLogTable",
+  "cloudTrailLogTable",
+  "xrayTraceEnabled",
+  "knowledgeBaseEnabled",
+  "architectureDescription"
+];
+
+/**
+ * Create the metadata of a recording
+ * @param input Input of the analysis
+ * @param configService Configuration service
+ * @returns Metadata
+ */
+export function createRecordingMetadata(
+  input: AnalysisInput,
+  configService: ConfigurationService
+): SessionRecordingMetadata {
+  const config = configService.getConfig();
+  return {
+    input,
+    config: Object.fromEntries(RECORDED_CONFIG_KEYS.map(key => [key, config[key]])),
+    recordedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Create a bundle from the recorded calls and the session state
+ * @param sessionId Session ID
+ * @param metadata Metadata of the recording
+ * @param calls Recorded calls
+ * @param state Session state at the end of the recording
+ * @returns Bundle
+ */
+export function createSessionBundle(
+  sessionId: string,
+  metadata: SessionRecordingMetadata,
+  calls: RecordedCall[],
+  state: SessionState
+): SessionBundle {
+  return {
+    version: 1,
+    sessionId,
+    ...metadata,
+    calls,
+    history: state.history,
+    finalAnswer: state.finalAnswer
+  };
+}
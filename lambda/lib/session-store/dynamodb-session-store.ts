@@ -0,0 +1,580 @@
+import { DynamoDBClient, TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { 
+  DynamoDBDocumentClient, 
+  GetCommand, 
+  PutCommand, 
+  DeleteCommand,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+  TransactWriteCommand,
+  UpdateCommand
+} from "@aws-sdk/lib-dynamodb";
+import { gzipSync, gunzipSync } from "zlib";
+import { SessionState, SessionStatus } from "../react-agent.js";
+import { logger } from "../logger.js";
+import { RecordedCall } from "../aws/fixtures/recording-services.js";
+import { SessionRecordingMetadata } from "../session-recording.js";
+import { SessionConflictError, SessionRecording, SessionStore, ThreadSession, markSessionCompleted } from "./session-store.js";
+
+// DynamoDBのアイテムサイズ上限（400KB）に収まるように、圧縮後のサイズがこれを超える記録は本文を保存しない
+const MAX_RECORD_PAYLOAD_BYTES = 350 * 1024;
+
+/**
+ * Session store using DynamoDB
+ * The session is saved as a master item (sk: DATA) and history items (sk: HISTORY#n) under pk SESSION#<sessionId>
+ * The recording is saved as a metadata item (sk: RECORDING) with the number of records, and record items (sk: RECORD#n)
+ * The session of a Slack thread is saved as an item (sk: SESSION) under pk THREAD#<channelId>#<threadTs>
+ * The master item has the version of the session and the number of history items, and both are written in a transaction conditioned on the version
+ */
+export class DynamoDBSessionStore implements SessionStore {
+  private tableName: string | null;
+  private docClient: DynamoDBDocumentClient;
+  
+  /**
+   * Constructor
+   * @param tableName Session table name
+   * @param docClient DynamoDBDocumentClient
+   */
+  constructor(tableName: string | null, docClient?: DynamoDBDocumentClient) {
+    this.tableName = tableName;
+    this.docClient = docClient || DynamoDBDocumentClient.from(new DynamoDBClient({}), { 
+      marshallOptions: { removeUndefinedValues: true } 
+    });
+  }
+  
+  async getSessionState(sessionId: string): Promise<SessionState | null> {
+    logger.info("Getting session state", { sessionId });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      // セッションIDをpkの形式に変換
+      const pk = `SESSION#${sessionId}`;
+      
+      // 1. マスターセッションアイテムを取得
+      // 直前のステップで保存されたバージョンを確実に読むため、強い整合性の読み込みを使用
+      const masterCommand = new GetCommand({
+        TableName: tableName,
+        Key: { 
+          pk,
+          sk: "DATA"
+        },
+        ConsistentRead: true
+      });
+      
+      const masterResponse = await this.docClient.send(masterCommand);
+      
+      if (!masterResponse.Item) {
+        logger.info("No session found", { sessionId });
+        return null;
+      }
+      
+      // 2. 履歴アイテムを取得（履歴が1MBを超える場合はページングする）
+      const historyItems = await this.queryAllItems({
+        TableName: tableName,
+        KeyConditionExpression: "pk = :pk AND begins_with(sk, :prefix)",
+        ExpressionAttributeValues: {
+          ":pk": pk,
+          ":prefix": "HISTORY#"
+        },
+        ConsistentRead: true
+      });
+      
+      // 3. マスターセッションと履歴を結合してSessionStateを構築
+      const masterItem = masterResponse.Item;
+      // ソートキーはゼロ埋めされていないため（HISTORY#10 が HISTORY#2 より前になる）、番号で並べ替える
+      historyItems.sort(
+        (a, b) => Number(a.sk.split("#")[1]) - Number(b.sk.split("#")[1])
+      );
+      
+      // 履歴アイテムをSessionStateのhistory配列に変換
+      const history = historyItems.map(item => ({
+        thinking: item.thinking,
+        action: item.action,
+        observation: item.observation,
+        timestamp: item.timestamp,
+        toolUseId: item.toolUseId,
+        cycle: item.cycle,
+        evidenceId: item.evidenceId
+      }));
+      
+      // SessionStateオブジェクトを構築
+      const state: SessionState = {
+        context: masterItem.context,
+        history: history,
+        finalAnswer: masterItem.finalAnswer,
+        report: masterItem.report,
+        state: masterItem.state,
+        cycleCount: masterItem.cycleCount,
+        dataCollectionStatus: masterItem.dataCollectionStatus,
+        lastThinking: masterItem.lastThinking,
+        lastActions: masterItem.lastActions,
+        lastObservations: masterItem.lastObservations,
+        lastToolResults: masterItem.lastToolResults,
+        missingData: masterItem.missingData,
+        hypotheses: masterItem.hypotheses,
+        forcedCompletion: masterItem.forcedCompletion,
+        tokenUsage: masterItem.tokenUsage,
+        historyDigests: masterItem.historyDigests,
+        toolCircuit: masterItem.toolCircuit,
+        toolResultCache: masterItem.toolResultCache,
+        status: masterItem.status,
+        maxAgentCycles: masterItem.maxAgentCycles,
+        version: masterItem.version ?? 0
+      };
+      
+      logger.info("Session state retrieved", { sessionId, historyCount: history.length, version: state.version });
+      return state;
+    } catch (error) {
+      logger.error("Error getting session state", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async saveSessionState(sessionId: string, state: SessionState): Promise<number> {
+    logger.info("Saving session state", { sessionId, version: state.version });
+    
+    const expectedVersion = state.version ?? 0;
+    
+    try {
+      const tableName = this.getTableName();
+      
+      const ttl = Math.floor(Date.now() / 1000) + 24 * 60 * 60 * 30; // Expires after 30 days
+      
+      // セッションIDをpkの形式に変換
+      const pk = `SESSION#${sessionId}`;
+      
+      // 1. 既存の履歴数を取得（読み込んだ時点から更新されている場合は保存しない）
+      const existingHistoryCount = await this.getHistoryCount(tableName, pk, expectedVersion);
+      if (existingHistoryCount === null) {
+        logger.warn("Session was updated by another invocation", { sessionId, expectedVersion });
+        throw new SessionConflictError(sessionId, expectedVersion);
+      }
+      
+      const newHistoryItems = state.history.slice(existingHistoryCount);
+      
+      // 2. マスターセッションアイテム（バージョンと履歴数を更新）
+      // バージョン属性のないアイテム（新規セッション、またはバージョン導入前のセッション）はバージョン0として扱う
+      const masterPut = {
+        TableName: tableName,
+        Item: {
+          pk,
+          sk: "DATA",
+          context: state.context,
+          finalAnswer: state.finalAnswer,
+          report: state.report,
+          state: state.state,
+          cycleCount: state.cycleCount,
+          dataCollectionStatus: state.dataCollectionStatus,
+          lastThinking: state.lastThinking,
+          lastActions: state.lastActions,
+          lastObservations: state.lastObservations,
+          lastToolResults: state.lastToolResults,
+          missingData: state.missingData,
+          hypotheses: state.hypotheses,
+          forcedCompletion: state.forcedCompletion,
+          tokenUsage: state.tokenUsage,
+          historyDigests: state.historyDigests,
+          toolCircuit: state.toolCircuit,
+          toolResultCache: state.toolResultCache,
+          status: state.status,
+          maxAgentCycles: state.maxAgentCycles,
+          historyCount: existingHistoryCount + newHistoryItems.length,
+          version: expectedVersion + 1,
+          ttl
+        },
+        ...(expectedVersion === 0
+          ? { ConditionExpression: "attribute_not_exists(version)" }
+          : {
+            ConditionExpression: "version = :expectedVersion",
+            ExpressionAttributeValues: { ":expectedVersion": expectedVersion }
+          })
+      };
+      
+      // 3. 新しい履歴アイテム（1ステップで追加される履歴は数件のため、トランザクションの上限には達しない）
+      const historyPuts = newHistoryItems.map((historyItem, i) => ({
+        TableName: tableName,
+        Item: {
+          pk,
+          sk: `HISTORY#${existingHistoryCount + i + 1}`,
+          thinking: historyItem.thinking,
+          action: historyItem.action,
+          observation: historyItem.observation,
+          timestamp: historyItem.timestamp,
+          toolUseId: historyItem.toolUseId,
+          cycle: historyItem.cycle,
+          evidenceId: historyItem.evidenceId,
+          ttl
+        },
+        ConditionExpression: "attribute_not_exists(sk)"
+      }));
+      
+      // 4. マスターセッションと履歴をまとめて保存し、同じステップの重複実行による履歴の重複を防ぐ
+      await this.docClient.send(new TransactWriteCommand({
+        TransactItems: [masterPut, ...historyPuts].map(put => ({ Put: put }))
+      }));
+      
+      logger.info("Session state saved", { 
+        sessionId, 
+        version: expectedVersion + 1,
+        newHistoryCount: newHistoryItems.length,
+        totalHistoryCount: state.history.length
+      });
+      return expectedVersion + 1;
+    } catch (error) {
+      if (error instanceof SessionConflictError) {
+        throw error;
+      }
+      if (
+        error instanceof TransactionCanceledException &&
+        error.CancellationReasons?.some(reason => reason.Code === "ConditionalCheckFailed")
+      ) {
+        logger.warn("Session was updated by another invocation", { sessionId, expectedVersion });
+        throw new SessionConflictError(sessionId, expectedVersion);
+      }
+      logger.error("Error saving session state", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<number> {
+    logger.info("Updating session status", { sessionId, status });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      // ステータスの更新と同時にバージョンを上げ、実行中のステップの保存を失敗させる
+      const response = await this.docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: {
+          pk: `SESSION#${sessionId}`,
+          sk: "DATA"
+        },
+        UpdateExpression: "SET #status = :status, version = if_not_exists(version, :zero) + :one",
+        ConditionExpression: "attribute_exists(pk)",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":status": status,
+          ":zero": 0,
+          ":one": 1
+        },
+        ReturnValues: "UPDATED_NEW"
+      }));
+      
+      const version = response.Attributes!.version as number;
+      logger.info("Session status updated", { sessionId, status, version });
+      return version;
+    } catch (error) {
+      logger.error("Error updating session status", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async completeSession(sessionId: string): Promise<void> {
+    logger.info("Completing session", { sessionId });
+    
+    try {
+      // Get session state
+      const currentState = await this.getSessionState(sessionId);
+      if (currentState) {
+        // Set final answer if it's not set and update state
+        markSessionCompleted(currentState);
+        
+        // Save updated session state
+        await this.saveSessionState(sessionId, currentState);
+      }
+      
+      logger.info("Session marked as completed", { sessionId });
+    } catch (error) {
+      logger.error("Error completing session", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async deleteSession(sessionId: string): Promise<void> {
+    logger.info("Deleting session", { sessionId });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      // セッションIDをpkの形式に変換
+      const pk = `SESSION#${sessionId}`;
+      
+      // 1. マスターセッションアイテムを削除
+      const masterCommand = new DeleteCommand({
+        TableName: tableName,
+        Key: { 
+          pk,
+          sk: "DATA"
+        }
+      });
+      
+      await this.docClient.send(masterCommand);
+      
+      // 2. 履歴アイテムと記録アイテムを取得（アイテムが多い場合はページングする）
+      const historyItems = await this.queryAllItems({
+        TableName: tableName,
+        KeyConditionExpression: "pk = :pk",
+        ExpressionAttributeValues: {
+          ":pk": pk
+        },
+        ProjectionExpression: "sk"
+      });
+      
+      // 3. 履歴アイテムと記録アイテムを削除
+      for (const item of historyItems) {
+        const deleteCommand = new DeleteCommand({
+          TableName: tableName,
+          Key: {
+            pk,
+            sk: item.sk
+          }
+        });
+        
+        await this.docClient.send(deleteCommand);
+      }
+      
+      logger.info("Session deleted", { sessionId, historyItemsDeleted: historyItems.length });
+    } catch (error) {
+      logger.error("Error deleting session", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async saveThreadSession(channelId: string, threadTs: string, threadSession: ThreadSession): Promise<void> {
+    logger.info("Saving thread session", { channelId, threadTs, sessionId: threadSession.sessionId });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      const ttl = Math.floor(Date.now() / 1000) + 24 * 60 * 60 * 30; // Expires after 30 days
+      
+      await this.docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: {
+          pk: `THREAD#${channelId}#${threadTs}`,
+          sk: "SESSION",
+          ...threadSession,
+          ttl
+        }
+      }));
+    } catch (error) {
+      logger.error("Error saving thread session", { error, channelId, threadTs });
+      throw error;
+    }
+  }
+  
+  async getThreadSession(channelId: string, threadTs: string): Promise<ThreadSession | null> {
+    logger.info("Getting thread session", { channelId, threadTs });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      const response = await this.docClient.send(new GetCommand({
+        TableName: tableName,
+        Key: {
+          pk: `THREAD#${channelId}#${threadTs}`,
+          sk: "SESSION"
+        }
+      }));
+      
+      if (!response.Item) {
+        return null;
+      }
+      
+      const { sessionId, startDate, endDate } = response.Item;
+      return { sessionId, startDate, endDate };
+    } catch (error) {
+      logger.error("Error getting thread session", { error, channelId, threadTs });
+      throw error;
+    }
+  }
+  
+  async saveSessionRecording(
+    sessionId: string,
+    calls: RecordedCall[],
+    metadata?: SessionRecordingMetadata
+  ): Promise<void> {
+    logger.info("Saving session recording", { sessionId, callCount: calls.length });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      const ttl = Math.floor(Date.now() / 1000) + 24 * 60 * 60 * 30; // Expires after 30 days
+      const pk = `SESSION#${sessionId}`;
+      
+      // 1. セッション開始時に再現用の情報を保存（記録数のカウンターを消さないように属性ごとに更新）
+      if (metadata) {
+        const attributes = Object.entries({ ...metadata, ttl });
+        await this.docClient.send(new UpdateCommand({
+          TableName: tableName,
+          Key: { pk, sk: "RECORDING" },
+          UpdateExpression: `SET ${attributes.map((_, i) => `#name${i} = :value${i}`).join(", ")}`,
+          ExpressionAttributeNames: Object.fromEntries(attributes.map(([name], i) => [`#name${i}`, name])),
+          ExpressionAttributeValues: Object.fromEntries(attributes.map(([, value], i) => [`:value${i}`, value]))
+        }));
+      }
+      
+      if (calls.length === 0) {
+        return;
+      }
+      
+      // 2. 記録数のカウンターを進めて、保存する記録の番号を確保（同時に保存されても番号が重ならない）
+      const counterResponse = await this.docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: { pk, sk: "RECORDING" },
+        UpdateExpression: "ADD recordCount :count",
+        ConditionExpression: "attribute_exists(pk)",
+        ExpressionAttributeValues: { ":count": calls.length },
+        ReturnValues: "UPDATED_NEW"
+      }));
+      const existingRecordCount = (counterResponse.Attributes!.recordCount as number) - calls.length;
+      
+      // 3. 呼び出しの記録を圧縮して保存（ソートキーは呼び出し順に並ぶようにゼロ埋め）
+      // 既存の記録を上書きしないように、ソートキーが存在しない場合のみ保存する
+      for (let i = 0; i < calls.length; i++) {
+        const { service, method, timestamp, ...body } = calls[i];
+        const payload = gzipSync(JSON.stringify(body));
+        const omitted = payload.length > MAX_RECORD_PAYLOAD_BYTES;
+        if (omitted) {
+          logger.warn("Recorded call is too large to save", { sessionId, service, method, size: payload.length });
+        }
+        
+        await this.docClient.send(new PutCommand({
+          TableName: tableName,
+          Item: {
+            pk,
+            sk: `RECORD#${String(existingRecordCount + i + 1).padStart(6, "0")}`,
+            service,
+            method,
+            timestamp,
+            payload: omitted ? undefined : payload,
+            omitted,
+            ttl
+          },
+          ConditionExpression: "attribute_not_exists(sk)"
+        }));
+      }
+      
+      logger.info("Session recording saved", { sessionId, totalCallCount: existingRecordCount + calls.length });
+    } catch (error) {
+      logger.error("Error saving session recording", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  async getSessionRecording(
+    sessionId: string
+  ): Promise<SessionRecording | null> {
+    logger.info("Getting session recording", { sessionId });
+    
+    try {
+      const tableName = this.getTableName();
+      
+      const pk = `SESSION#${sessionId}`;
+      
+      // 1. 再現用の情報を取得
+      const metadataResponse = await this.docClient.send(new GetCommand({
+        TableName: tableName,
+        Key: { pk, sk: "RECORDING" }
+      }));
+      
+      if (!metadataResponse.Item) {
+        logger.info("No session recording found", { sessionId });
+        return null;
+      }
+      
+      // 2. 呼び出しの記録を取得（記録が多い場合はページングする）
+      const recordItems = await this.queryAllItems({
+        TableName: tableName,
+        KeyConditionExpression: "pk = :pk AND begins_with(sk, :prefix)",
+        ExpressionAttributeValues: {
+          ":pk": pk,
+          ":prefix": "RECORD#"
+        },
+        ScanIndexForward: true, // 呼び出し順
+        ConsistentRead: true
+      });
+      
+      const calls: RecordedCall[] = recordItems.map(item => {
+        const body = item.payload
+          ? JSON.parse(gunzipSync(Buffer.from(item.payload)).toString("utf-8"))
+          : { args: [], error: { name: "RecordOmitted", message: "The recorded call was too large to save" } };
+        return { service: item.service, method: item.method, timestamp: item.timestamp, ...body };
+      });
+      
+      const { input, config: recordedConfig, recordedAt } = metadataResponse.Item;
+      logger.info("Session recording retrieved", { sessionId, callCount: calls.length });
+      return { metadata: { input, config: recordedConfig, recordedAt }, calls };
+    } catch (error) {
+      logger.error("Error getting session recording", { error, sessionId });
+      throw error;
+    }
+  }
+  
+  /**
+   * Get the number of history items saved with the version
+   * Sessions saved before the number was kept on the master item are counted with a paginated query
+   * @returns Number of history items, or null when the master item has another version
+   */
+  private async getHistoryCount(tableName: string, pk: string, expectedVersion: number): Promise<number | null> {
+    const masterResponse = await this.docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: { pk, sk: "DATA" },
+      ProjectionExpression: "version, historyCount",
+      ConsistentRead: true
+    }));
+    
+    const masterItem = masterResponse.Item;
+    if ((masterItem?.version ?? 0) !== expectedVersion) {
+      return null;
+    }
+    if (typeof masterItem?.historyCount === "number") {
+      return masterItem.historyCount;
+    }
+    if (!masterItem) {
+      return 0;
+    }
+    
+    let count = 0;
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const countResponse = await this.docClient.send(new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: "pk = :pk AND begins_with(sk, :prefix)",
+        ExpressionAttributeValues: {
+          ":pk": pk,
+          ":prefix": "HISTORY#"
+        },
+        Select: "COUNT",
+        ConsistentRead: true,
+        ExclusiveStartKey: exclusiveStartKey
+      }));
+      count += countResponse.Count || 0;
+      exclusiveStartKey = countResponse.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return count;
+  }
+  
+  /**
+   * Query all the items, following the pages (a query reads up to 1MB at a time)
+   */
+  private async queryAllItems(input: QueryCommandInput): Promise<NonNullable<QueryCommandOutput["Items"]>> {
+    const items: NonNullable<QueryCommandOutput["Items"]> = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const response = await this.docClient.send(new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey }));
+      items.push(...(response.Items || []));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+    return items;
+  }
+  
+  private getTableName(): string {
+    if (!this.tableName) {
+      throw new Error("Session table name is not configured");
+    }
+    return this.tableName;
+  }
+}
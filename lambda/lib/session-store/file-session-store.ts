@@ -0,0 +1,129 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { SessionState, SessionStatus } from "../react-agent.js";
+import { RecordedCall } from "../aws/fixtures/recording-services.js";
+import { SessionRecordingMetadata } from "../session-recording.js";
+import { SessionConflictError, SessionRecording, SessionStore, ThreadSession, markSessionCompleted } from "./session-store.js";
+
+/**
+ * Content of a session file
+ */
+interface SessionFile {
+  state: SessionState | null;
+  recording: SessionRecording | null;
+}
+
+/**
+ * Session store saving each session as a JSON file (<directory>/<sessionId>.json) for local runs
+ * The sessions of Slack threads are saved in <directory>/threads.json
+ * The version is checked without locking the file, so it does not protect against concurrent processes
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+  
+  /**
+   * Constructor
+   * @param directory Directory of the session files (created if it does not exist)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+  
+  async getSessionState(sessionId: string): Promise<SessionState | null> {
+    return (await this.readSessionFile(sessionId)).state;
+  }
+  
+  async saveSessionState(sessionId: string, state: SessionState): Promise<number> {
+    const sessionFile = await this.readSessionFile(sessionId);
+    const expectedVersion = state.version ?? 0;
+    if ((sessionFile.state?.version ?? 0) !== expectedVersion) {
+      throw new SessionConflictError(sessionId, expectedVersion);
+    }
+    await this.writeSessionFile(sessionId, { ...sessionFile, state: { ...state, version: expectedVersion + 1 } });
+    return expectedVersion + 1;
+  }
+  
+  async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<number> {
+    const state = await this.getSessionState(sessionId);
+    if (!state) {
+      throw new Error(`Session ${sessionId} was not found`);
+    }
+    return this.saveSessionState(sessionId, { ...state, status });
+  }
+  
+  async completeSession(sessionId: string): Promise<void> {
+    const state = await this.getSessionState(sessionId);
+    if (state) {
+      markSessionCompleted(state);
+      await this.saveSessionState(sessionId, state);
+    }
+  }
+  
+  async deleteSession(sessionId: string): Promise<void> {
+    await rm(this.getFilePath(sessionId), { force: true });
+  }
+  
+  async saveThreadSession(channelId: string, threadTs: string, threadSession: ThreadSession): Promise<void> {
+    const threadSessions = await this.readThreadSessions();
+    threadSessions[`${channelId}#${threadTs}`] = threadSession;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(join(this.directory, "threads.json"), JSON.stringify(threadSessions, null, 2));
+  }
+  
+  async getThreadSession(channelId: string, threadTs: string): Promise<ThreadSession | null> {
+    return (await this.readThreadSessions())[`${channelId}#${threadTs}`] ?? null;
+  }
+  
+  async saveSessionRecording(sessionId: string, calls: RecordedCall[], metadata?: SessionRecordingMetadata): Promise<void> {
+    const sessionFile = await this.readSessionFile(sessionId);
+    if (!sessionFile.recording && !metadata) {
+      throw new Error(`Recording of session ${sessionId} has not been started`);
+    }
+    await this.writeSessionFile(sessionId, {
+      ...sessionFile,
+      recording: {
+        metadata: metadata ?? sessionFile.recording!.metadata,
+        calls: [...(sessionFile.recording?.calls ?? []), ...calls]
+      }
+    });
+  }
+  
+  async getSessionRecording(sessionId: string): Promise<SessionRecording | null> {
+    return (await this.readSessionFile(sessionId)).recording;
+  }
+  
+  private getFilePath(sessionId: string): string {
+    // Session IDs are used as file names, so reject anything that could point outside of the directory
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return join(this.directory, `${sessionId}.json`);
+  }
+  
+  private async readSessionFile(sessionId: string): Promise<SessionFile> {
+    try {
+      return JSON.parse(await readFile(this.getFilePath(sessionId), "utf-8")) as SessionFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { state: null, recording: null };
+      }
+      throw error;
+    }
+  }
+  
+  private async readThreadSessions(): Promise<Record<string, ThreadSession>> {
+    try {
+      return JSON.parse(await readFile(join(this.directory, "threads.json"), "utf-8")) as Record<string, ThreadSession>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+  
+  private async writeSessionFile(sessionId: string, sessionFile: SessionFile): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.getFilePath(sessionId), JSON.stringify(sessionFile, null, 2));
+  }
+}
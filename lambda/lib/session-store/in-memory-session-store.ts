@@ -0,0 +1,75 @@
+import { SessionState, SessionStatus } from "../react-agent.js";
+import { RecordedCall } from "../aws/fixtures/recording-services.js";
+import { SessionRecordingMetadata } from "../session-recording.js";
+import { SessionConflictError, SessionRecording, SessionStore, ThreadSession, markSessionCompleted } from "./session-store.js";
+
+/**
+ * Session store kept in memory for tests and local runs
+ * The state is serialized in the same way as when it is saved to DynamoDB, so that the agent does not share objects between steps
+ */
+export class InMemorySessionStore implements SessionStore {
+  private states = new Map<string, string>();
+  private recordings = new Map<string, SessionRecording>();
+  private threadSessions = new Map<string, ThreadSession>();
+  
+  async getSessionState(sessionId: string): Promise<SessionState | null> {
+    const state = this.states.get(sessionId);
+    return state ? JSON.parse(state) as SessionState : null;
+  }
+  
+  async saveSessionState(sessionId: string, state: SessionState): Promise<number> {
+    const expectedVersion = state.version ?? 0;
+    const savedVersion = (await this.getSessionState(sessionId))?.version ?? 0;
+    if (savedVersion !== expectedVersion) {
+      throw new SessionConflictError(sessionId, expectedVersion);
+    }
+    this.states.set(sessionId, JSON.stringify({ ...state, version: expectedVersion + 1 }));
+    return expectedVersion + 1;
+  }
+  
+  async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<number> {
+    const state = await this.getSessionState(sessionId);
+    if (!state) {
+      throw new Error(`Session ${sessionId} was not found`);
+    }
+    return this.saveSessionState(sessionId, { ...state, status });
+  }
+  
+  async completeSession(sessionId: string): Promise<void> {
+    const state = await this.getSessionState(sessionId);
+    if (state) {
+      markSessionCompleted(state);
+      await this.saveSessionState(sessionId, state);
+    }
+  }
+  
+  async deleteSession(sessionId: string): Promise<void> {
+    this.states.delete(sessionId);
+    this.recordings.delete(sessionId);
+  }
+  
+  async saveThreadSession(channelId: string, threadTs: string, threadSession: ThreadSession): Promise<void> {
+    this.threadSessions.set(`${channelId}#${threadTs}`, { ...threadSession });
+  }
+  
+  async getThreadSession(channelId: string, threadTs: string): Promise<ThreadSession | null> {
+    const threadSession = this.threadSessions.get(`${channelId}#${threadTs}`);
+    return threadSession ? { ...threadSession } : null;
+  }
+  
+  async saveSessionRecording(sessionId: string, calls: RecordedCall[], metadata?: SessionRecordingMetadata): Promise<void> {
+    const recording = this.recordings.get(sessionId);
+    if (!recording && !metadata) {
+      throw new Error(`Recording of session ${sessionId} has not been started`);
+    }
+    this.recordings.set(sessionId, {
+      metadata: metadata ?? recording!.metadata,
+      calls: [...(recording?.calls ?? []), ...structuredClone(calls)]
+    });
+  }
+  
+  async getSessionRecording(sessionId: string): Promise<SessionRecording | null> {
+    const recording = this.recordings.get(sessionId);
+    return recording ? structuredClone(recording) : null;
+  }
+}
@@ -0,0 +1,8 @@
+// Session store interface
+export { SessionConflictError, markSessionCompleted } from './session-store.js';
+export type { SessionStore, SessionRecording, ThreadSession } from './session-store.js';
+
+// Implementations
+export { DynamoDBSessionStore } from './dynamodb-session-store.js';
+export { InMemorySessionStore } from './in-memory-session-store.js';
+export { FileSessionStore } from './file-session-store.js';
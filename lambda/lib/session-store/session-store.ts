@@ -0,0 +1,122 @@
+import { ReactionState, SessionState, SessionStatus } from "../react-agent.js";
+import { RecordedCall } from "../aws/fixtures/recording-services.js";
+import { SessionRecordingMetadata } from "../session-recording.js";
+import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
+
+/**
+ * Recorded calls of a session with the information to reproduce it
+ */
+export interface SessionRecording {
+  metadata: SessionRecordingMetadata;
+  calls: RecordedCall[];
+}
+
+/**
+ * Latest session analyzed in a Slack thread, with what is needed to continue the analysis
+ */
+export interface ThreadSession {
+  sessionId: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Error thrown when the session was saved by another invocation after it was read
+ */
+export class SessionConflictError extends Error {
+  constructor(
+    public readonly sessionId: string,
+    public readonly expectedVersion: number
+  ) {
+    super(`Session ${sessionId} was updated by another invocation (expected version: ${expectedVersion})`);
+    this.name = 'SessionConflictError';
+  }
+}
+
+/**
+ * Storage of the ReActAgent session state between steps
+ * The state has a version incremented on each save, and a save based on an outdated state fails with SessionConflictError
+ */
+export interface SessionStore {
+  /**
+   * Get the session state
+   * @param sessionId Session ID
+   * @returns Session state with the saved version (null for a new session)
+   */
+  getSessionState(sessionId: string): Promise<SessionState | null>;
+  
+  /**
+   * Save the session state if the saved version is still the version of the state
+   * @param sessionId Session ID
+   * @param state Session state (state.version is the version when it was read)
+   * @returns New version, which is also the sequence number of the next step
+   * @throws SessionConflictError when the session was saved by another invocation
+   */
+  saveSessionState(sessionId: string, state: SessionState): Promise<number>;
+  
+  /**
+   * Update the status of the session from outside of the agent (cancel, failure and resume).
+   * The version is incremented, so that the step being executed cannot be saved and queued steps are skipped
+   * @param sessionId Session ID
+   * @param status New status
+   * @returns New version, which is the sequence number of the step to resume the session
+   * @throws Error when the session does not exist
+   */
+  updateSessionStatus(sessionId: string, status: SessionStatus): Promise<number>;
+  
+  /**
+   * Mark the session as completed
+   * @param sessionId Session ID
+   * @throws SessionConflictError when the session was saved by another invocation
+   */
+  completeSession(sessionId: string): Promise<void>;
+  
+  /**
+   * Delete the session with its history and recording
+   * @param sessionId Session ID
+   */
+  deleteSession(sessionId: string): Promise<void>;
+  
+  /**
+   * Save the session analyzed in the thread. The mapping is replaced when another analysis starts in the same thread
+   * @param channelId Channel ID
+   * @param threadTs Thread timestamp
+   * @param threadSession Session of the thread
+   */
+  saveThreadSession(channelId: string, threadTs: string, threadSession: ThreadSession): Promise<void>;
+  
+  /**
+   * Get the session analyzed in the thread
+   * @param channelId Channel ID
+   * @param threadTs Thread timestamp
+   * @returns Session of the thread (null if no analysis was started in the thread)
+   */
+  getThreadSession(channelId: string, threadTs: string): Promise<ThreadSession | null>;
+  
+  /**
+   * Append recorded calls of the session
+   * @param sessionId Session ID
+   * @param calls Recorded calls
+   * @param metadata Information to reproduce the session, saved when the session starts
+   */
+  saveSessionRecording(sessionId: string, calls: RecordedCall[], metadata?: SessionRecordingMetadata): Promise<void>;
+  
+  /**
+   * Get the recording of the session
+   * @param sessionId Session ID
+   * @returns Recording (null if the session was not recorded)
+   */
+  getSessionRecording(sessionId: string): Promise<SessionRecording | null>;
+}
+
+/**
+ * Update the session state as completed
+ * @param state Session state
+ */
+export function markSessionCompleted(state: SessionState): void {
+  // Set final answer if it's not set
+  if (!state.finalAnswer) {
+    state.finalAnswer = getI18nProvider().translate("analysisCompletedDefaultAnswer");
+  }
+  state.state = ReactionState.COMPLETED;
+}
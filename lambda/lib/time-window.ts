@@ -0,0 +1,106 @@
+import { JsonSchema, ParameterValidationError, ToolParameterValidationError } from "./tool-schema.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+
+/**
+ * Maximum minutes before the start of the analysis which a tool call can query, when none is configured
+ */
+export const DEFAULT_MAX_LOOKBACK_MINUTES = 24 * 60;
+
+// Dates without the offset would be read in the timezone of the runtime
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Time range queried by a tool (ISO 8601)
+ */
+export interface TimeWindow {
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Parameters of the time-based tools to change the time range of a call
+ */
+export interface TimeWindowParameters {
+  startDate?: string;
+  endDate?: string;
+  startOffsetMinutes?: number;
+  endOffsetMinutes?: number;
+}
+
+/**
+ * Create the schema of the time range parameters, added to the parameters of every time-based tool
+ * @param i18n I18nProvider for the descriptions
+ */
+export function createTimeWindowParameters(i18n: I18nProvider): Record<keyof TimeWindowParameters, JsonSchema> {
+  return {
+    startDate: {
+      type: "string",
+      description: i18n.translate("toolStartDateParameter")
+    },
+    endDate: {
+      type: "string",
+      description: i18n.translate("toolEndDateParameter")
+    },
+    startOffsetMinutes: {
+      type: "integer",
+      description: i18n.translate("toolStartOffsetMinutesParameter")
+    },
+    endOffsetMinutes: {
+      type: "integer",
+      description: i18n.translate("toolEndOffsetMinutesParameter")
+    }
+  };
+}
+
+/**
+ * Resolve the time range of a tool call from its parameters
+ * The dates are the time range of the analysis unless the parameters change them, and the offsets are added to the dates
+ * @param toolName Tool name
+ * @param params Time range parameters of the call
+ * @param defaultWindow Time range of the analysis
+ * @param maxLookbackMinutes Maximum minutes before the start of the analysis which the call can query
+ * @returns Time range of the call
+ * @throws ToolParameterValidationError when the time range is invalid, so that the model can correct it
+ */
+export function resolveTimeWindow(
+  toolName: string,
+  params: TimeWindowParameters,
+  defaultWindow: TimeWindow,
+  maxLookbackMinutes: number
+): TimeWindow {
+  if (
+    params.startDate === undefined && params.endDate === undefined &&
+    !params.startOffsetMinutes && !params.endOffsetMinutes
+  ) {
+    return defaultWindow;
+  }
+
+  const errors: ParameterValidationError[] = [];
+  const parseDate = (path: string, value: string | undefined, defaultValue: string, offsetMinutes = 0): number => {
+    if (value !== undefined && (!OFFSET_PATTERN.test(value.trim()) || isNaN(Date.parse(value)))) {
+      errors.push({ path, message: "must be an ISO 8601 date and time with the UTC offset", received: value });
+      return NaN;
+    }
+    return Date.parse(value ?? defaultValue) + offsetMinutes * 60 * 1000;
+  };
+  const start = parseDate("startDate", params.startDate, defaultWindow.startDate, params.startOffsetMinutes);
+  const end = parseDate("endDate", params.endDate, defaultWindow.endDate, params.endOffsetMinutes);
+
+  if (errors.length === 0) {
+    const earliest = Date.parse(defaultWindow.startDate) - maxLookbackMinutes * 60 * 1000;
+    if (start >= end) {
+      errors.push({ path: "startDate", message: "must be before the end date", received: new Date(start).toISOString() });
+    } else if (start < earliest) {
+      errors.push({
+        path: "startDate",
+        message: `must not be earlier than ${new Date(earliest).toISOString()} (${maxLookbackMinutes} minutes before the start of the analysis)`,
+        received: new Date(start).toISOString()
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ToolParameterValidationError(toolName, errors);
+  }
+  return { startDate: new Date(start).toISOString(), endDate: new Date(end).toISOString() };
+}
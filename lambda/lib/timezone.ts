@@ -0,0 +1,65 @@
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+
+/**
+ * Timezone used when none is configured, which keeps the behavior of the former JST only version
+ */
+export const DEFAULT_TIMEZONE = "Asia/Tokyo";
+
+// Timestamps in the messages and the tool outputs show the offset, so that they are not mistaken for UTC
+const TIMESTAMP_PATTERN = "yyyy-MM-dd HH:mm:ss XXX";
+
+// CloudWatch Logs Insights returns @timestamp in UTC without the offset (e.g. "2025-01-01 00:00:00.000")
+const UTC_WITHOUT_OFFSET = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Whether the value is an IANA timezone name supported by the runtime (e.g. "America/New_York")
+ * @param timezone Timezone name
+ */
+export function isValidTimezone(timezone: string | null | undefined): timezone is string {
+  if (!timezone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the first valid timezone
+ * @param candidates Timezones in order of priority (e.g. the timezone of the Slack user, then the configured one)
+ * @returns Timezone name, or the default timezone when none is valid
+ */
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimezone) ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Format a timestamp in the timezone
+ * @param date Date, or a string or epoch milliseconds parsed as Date. A string without the offset is parsed as UTC
+ * @param timezone Timezone name
+ * @param pattern Pattern of date-fns. Defaults to the date and time with the UTC offset
+ * @returns Formatted text. Invalid dates are returned as they are
+ */
+export function formatInTimezone(date: Date | string | number, timezone: string, pattern: string = TIMESTAMP_PATTERN): string {
+  const value = date instanceof Date
+    ? date
+    : new Date(typeof date === "string" && UTC_WITHOUT_OFFSET.test(date) ? `${date.replace(" ", "T")}Z` : date);
+  if (isNaN(value.getTime())) {
+    return String(date);
+  }
+  return formatInTimeZone(value, timezone, pattern);
+}
+
+/**
+ * Convert the date and time entered in the timezone to UTC
+ * @param date Date (yyyy-MM-dd)
+ * @param time Time (HH:mm)
+ * @param timezone Timezone of the input
+ * @returns ISO 8601 string in UTC
+ */
+export function zonedDateTimeToUtc(date: string, time: string, timezone: string): string {
+  return fromZonedTime(`${date}T${time}`, timezone).toISOString();
+}
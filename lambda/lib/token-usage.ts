@@ -0,0 +1,133 @@
+import { TokenUsage as ConverseTokenUsage } from "@aws-sdk/client-bedrock-runtime";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+
+/**
+ * Tokens consumed by model calls
+ * Cached tokens are counted separately from inputTokens, same as the usage of the Converse API
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheWriteInputTokens: number;
+  modelCalls: number;
+}
+
+/**
+ * Price of the model in USD per million tokens
+ * Cached tokens are charged at the input price when their prices are omitted
+ */
+export interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  cacheReadPerMillionTokens?: number;
+  cacheWritePerMillionTokens?: number;
+}
+
+/**
+ * Limits of the tokens and the cost of a session. The analysis is completed forcibly when one of them is exceeded
+ */
+export interface UsageBudget {
+  maxTokens?: number | null;
+  maxCostUsd?: number | null; // Requires the pricing
+  pricing?: ModelPricing | null;
+}
+
+/**
+ * Create an empty usage
+ */
+export function createTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadInputTokens: 0, cacheWriteInputTokens: 0, modelCalls: 0 };
+}
+
+/**
+ * Convert the usage field of the Converse API response
+ * @param usage Usage of the response
+ * @returns Usage of one model call, or undefined when the response has no usage
+ */
+export function fromConverseUsage(usage: ConverseTokenUsage | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    cacheReadInputTokens: usage.cacheReadInputTokens ?? 0,
+    cacheWriteInputTokens: usage.cacheWriteInputTokens ?? 0,
+    modelCalls: 1
+  };
+}
+
+/**
+ * Add the usage of a model call to the total
+ * @param total Total usage so far (empty if omitted)
+ * @param usage Usage to add
+ * @returns New total
+ */
+export function addTokenUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  const base = total ?? createTokenUsage();
+  return {
+    inputTokens: base.inputTokens + usage.inputTokens,
+    outputTokens: base.outputTokens + usage.outputTokens,
+    cacheReadInputTokens: base.cacheReadInputTokens + usage.cacheReadInputTokens,
+    cacheWriteInputTokens: base.cacheWriteInputTokens + usage.cacheWriteInputTokens,
+    modelCalls: base.modelCalls + usage.modelCalls
+  };
+}
+
+/**
+ * Total tokens including the cached tokens
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadInputTokens + usage.cacheWriteInputTokens;
+}
+
+/**
+ * Estimate the cost of the usage
+ * @param usage Token usage
+ * @param pricing Price of the model
+ * @returns Cost in USD
+ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const perToken = (pricePerMillionTokens: number) => pricePerMillionTokens / 1_000_000;
+  return usage.inputTokens * perToken(pricing.inputPerMillionTokens)
+    + usage.outputTokens * perToken(pricing.outputPerMillionTokens)
+    + usage.cacheReadInputTokens * perToken(pricing.cacheReadPerMillionTokens ?? pricing.inputPerMillionTokens)
+    + usage.cacheWriteInputTokens * perToken(pricing.cacheWritePerMillionTokens ?? pricing.inputPerMillionTokens);
+}
+
+/**
+ * Whether the usage has reached the budget
+ * @param usage Token usage of the session
+ * @param budget Budget (no limit if omitted)
+ */
+export function isBudgetExceeded(usage: TokenUsage | undefined, budget: UsageBudget | undefined): boolean {
+  if (!usage || !budget) {
+    return false;
+  }
+  if (budget.maxTokens && getTotalTokens(usage) >= budget.maxTokens) {
+    return true;
+  }
+  return !!budget.maxCostUsd && !!budget.pricing && estimateCost(usage, budget.pricing) >= budget.maxCostUsd;
+}
+
+/**
+ * Describe the usage for the messages
+ * @param usage Token usage
+ * @param i18n I18n provider
+ * @param pricing Price of the model. The cost is shown only when it is given
+ * @returns Text such as "Token usage: 12,345 tokens (input 10,000 / output 2,345) in 4 model calls"
+ */
+export function describeTokenUsage(usage: TokenUsage, i18n: I18nProvider, pricing?: ModelPricing | null): string {
+  const format = (value: number) => value.toLocaleString("en-US");
+  const text = i18n.formatTranslation(
+    "tokenUsageMessage",
+    format(getTotalTokens(usage)),
+    format(usage.inputTokens + usage.cacheReadInputTokens + usage.cacheWriteInputTokens),
+    format(usage.outputTokens),
+    usage.modelCalls
+  );
+  return pricing
+    ? `${text}\n${i18n.formatTranslation("tokenCostMessage", estimateCost(usage, pricing).toFixed(4))}`
+    : text;
+}
@@ -3,6 +3,7 @@ import { logger } from "../logger.js";
 import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
 import { ConfigurationService } from "../configuration-service.js";
+import { ToolResult, ToolResultStatus } from "../tools-registry.js";
 
 // Log type enumeration
 export enum LogType {
@@ -16,6 +17,7 @@ export interface BaseLogQueryParams {
   endDate: string;
   region?: string;
   i18n?: I18nProvider;
+  abortSignal?: AbortSignal; // Aborted when the tool call times out
   configService?: ConfigurationService;
   logType: LogType;
 }
@@ -54,7 +56,7 @@ export abstract class BaseAthenaLogTool {
   }
   
   // Common execution method
-  async execute(params: BaseLogQueryParams): Promise<string> {
+  async execute(params: BaseLogQueryParams): Promise<ToolResult> {
     // Update i18n if provided in params
     if (params.i18n) {
       this.i18n = params.i18n;
@@ -79,7 +81,7 @@ export abstract class BaseAthenaLogTool {
         const configErrorKey = this.getLogTypeName() === 'CloudTrail' 
           ? "auditLogTableNotConfigured" 
           : "albLogTableNotConfigured";
-        return this.i18n.translate(configErrorKey);
+        return { status: ToolResultStatus.ERROR, summary: this.i18n.translate(configErrorKey) };
       }
       
       const athenaQueryOutputLocation = `s3://${athenaQueryBucket}/`;
@@ -95,6 +97,7 @@ export abstract class BaseAthenaLogTool {
         { Database: databaseName },
         queryParams as string[],
         athenaQueryOutputLocation,
+        params.abortSignal
       );
       
       // Format results using log type specific implementation
@@ -105,10 +108,13 @@ export abstract class BaseAthenaLogTool {
       const errorKey = this.getLogTypeName() === 'CloudTrail' 
         ? "auditLogQueryError" 
         : "albLogQueryError";
-      return this.i18n.formatTranslation(
-        errorKey, 
-        error instanceof Error ? error.message : String(error)
-      );
+      return {
+        status: ToolResultStatus.ERROR,
+        summary: this.i18n.formatTranslation(
+          errorKey, 
+          error instanceof Error ? error.message : String(error)
+        )
+      };
     }
   }
   
@@ -117,7 +123,7 @@ export abstract class BaseAthenaLogTool {
   protected abstract getLogTableName(): string | undefined;
   protected abstract getI18nPrefix(): string;
   protected abstract buildQuery(params: BaseLogQueryParams): { query: string; queryParams: unknown[] };
-  protected abstract formatResults(csvResults: string): string;
+  protected abstract formatResults(csvResults: string): ToolResult;
 }
 
 // CloudTrail log implementation
@@ -180,9 +186,9 @@ export class CloudTrailLogTool extends BaseAthenaLogTool {
     return { query, queryParams };
   }
   
-  protected formatResults(csvResults: string): string {
+  protected formatResults(csvResults: string): ToolResult {
     if (!csvResults || csvResults.trim() === "") {
-      return this.i18n.translate("auditLogNoResults");
+      return { status: ToolResultStatus.NO_DATA, summary: this.i18n.translate("auditLogNoResults"), itemCount: 0 };
     }
     
     let output = this.i18n.translate("auditLogAnalysisTitle");
@@ -190,7 +196,7 @@ export class CloudTrailLogTool extends BaseAthenaLogTool {
     // Parse CSV
     const lines = csvResults.trim().split("\n");
     if (lines.length <= 1) {
-      return output + this.i18n.translate("auditLogNoLogsFound");
+      return { status: ToolResultStatus.NO_DATA, summary: output + this.i18n.translate("auditLogNoLogsFound"), itemCount: 0 };
     }
     
     const headers = lines[0].split(",");
@@ -310,7 +316,12 @@ export class CloudTrailLogTool extends BaseAthenaLogTool {
       );
     }
     
-    return output;
+    return {
+      status: ToolResultStatus.DATA,
+      summary: output,
+      payload: rows,
+      itemCount: rows.length
+    };
   }
 }
 
@@ -385,9 +396,9 @@ export class AlbLogTool extends BaseAthenaLogTool {
     return { query, queryParams };
   }
   
-  protected formatResults(csvResults: string): string {
+  protected formatResults(csvResults: string): ToolResult {
     if (!csvResults || csvResults.trim() === "") {
-      return this.i18n.translate("albLogNoResults");
+      return { status: ToolResultStatus.NO_DATA, summary: this.i18n.translate("albLogNoResults"), itemCount: 0 };
     }
 
     let output = this.i18n.translate("albLogAnalysisTitle");
@@ -395,7 +406,7 @@ export class AlbLogTool extends BaseAthenaLogTool {
     // Parse CSV
     const lines = csvResults.trim().split("\n");
     if (lines.length <= 1) {
-      return output + this.i18n.translate("albLogNoLogsFound");
+      return { status: ToolResultStatus.NO_DATA, summary: output + this.i18n.translate("albLogNoLogsFound"), itemCount: 0 };
     }
 
     const headers = lines[0].split(",");
@@ -536,7 +547,12 @@ export class AlbLogTool extends BaseAthenaLogTool {
       );
     }
 
-    return output;
+    return {
+      status: ToolResultStatus.DATA,
+      summary: output,
+      payload: rows,
+      itemCount: rows.length
+    };
   }
 }
 
@@ -555,7 +571,7 @@ export class AthenaLogToolFactory {
 }
 
 // Function that can be called externally
-export const athenaLogToolExecutor = async (params: LogQueryParams): Promise<string> => {
+export const athenaLogToolExecutor = async (params: LogQueryParams): Promise<ToolResult> => {
   const logTool = AthenaLogToolFactory.createLogTool(params.logType, params.i18n, params.configService);
   return await logTool.execute(params);
 };
@@ -1,4 +1,4 @@
-import { ToolRegistry } from "../tools-registry.js";
+import { ToolExecutionContext, ToolRegistry, ToolResult, ToolResultStatus } from "../tools-registry.js";
 import { metricsToolExecutor } from "./metrics-tool.js";
 import { logsToolExecutor } from "./logs-tool.js";
 import { athenaLogToolExecutor, LogType } from "./athena-log-tool.js";
@@ -8,16 +8,20 @@ import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
 import { ConfigurationService } from "../configuration-service.js";
 import { logger } from "../logger.js";
+import { registerToolPlugins } from "../tool-plugin.js";
+import { createTimeWindowParameters, TimeWindow, TimeWindowParameters, resolveTimeWindow } from "../time-window.js";
+import { formatInTimezone } from "../timezone.js";
 
-export function registerAllTools(
+export async function registerAllTools(
   toolRegistry: ToolRegistry, 
   globalParams: {
     startDate: string;
     endDate: string;
+    timezone?: string; // Timezone to show the timestamps in the tool outputs
   },
   i18n?: I18nProvider, // Add optional i18n parameter
   configService?: ConfigurationService // Add optional configuration service parameter
-): void {
+): Promise<void> {
   // Use provided i18n instance or get from factory
   const i18nInstance = i18n || getI18nProvider();
   
@@ -30,249 +34,262 @@ export function registerAllTools(
     hasCloudTrailLogTable: !!config.cloudTrailLogTable,
     xrayTraceEnabled: config.xrayTraceEnabled,
     knowledgeBaseEnabled: config.knowledgeBaseEnabled,
-    logGroupsCount: config.cwLogsLogGroups.length
+    logGroupsCount: config.cwLogsLogGroups.length,
+    toolPlugins: config.toolPlugins.map(plugin => plugin.name)
   });
   
+  // Time-based tools can narrow or widen the time range of the analysis with their parameters (the time range of the analysis if omitted)
+  const analysisWindow: TimeWindow = { startDate: globalParams.startDate, endDate: globalParams.endDate };
+  const timeWindowParameters = createTimeWindowParameters(i18nInstance);
+  const executeInTimeWindow = async (
+    toolName: string,
+    params: Record<string, unknown>,
+    execute: (toolParams: Record<string, unknown>, window: TimeWindow) => Promise<ToolResult>
+  ): Promise<ToolResult> => {
+    const { startDate, endDate, startOffsetMinutes, endOffsetMinutes, ...toolParams } = params as TimeWindowParameters & Record<string, unknown>;
+    const window = resolveTimeWindow(
+      toolName,
+      { startDate, endDate, startOffsetMinutes, endOffsetMinutes },
+      analysisWindow,
+      config.maxLookbackMinutes
+    );
+    const result = await execute(toolParams, window);
+    if (window.startDate === analysisWindow.startDate && window.endDate === analysisWindow.endDate) {
+      return result;
+    }
+    // Tell the model that the result is for a time range different from the analysis
+    const format = (date: string) => globalParams.timezone ? formatInTimezone(date, globalParams.timezone) : date;
+    return {
+      ...result,
+      summary: `${i18nInstance.formatTranslation("toolTimeWindowLabel", format(window.startDate), format(window.endDate))}\n${result.summary}`
+    };
+  };
+  
   // Metrics tool
   toolRegistry.registerTool({
     name: "metrics_tool",
-    description: `CloudWatchメトリクスを取得して分析します。特定のメトリクス名や名前空間でフィルタリングできます。
-    名前空間を指定しない場合は、一般的なAWSサービスの名前空間から自動的に取得します。
-    'ApplicationSignals'の名前空間でメトリクスが定義されている場合、ビジネスメトリクスも取得できます。`,
-    parameters: [
-      {
-        name: "metricNames",
-        type: "string[]",
-        description: "取得するメトリクス名の配列（例: ['Latency', 'ErrorRate']）",
-        required: false
-      },
-      {
-        name: "namespaces",
-        type: "string[]",
-        description: "取得するメトリクスの名前空間の配列（例: ['AWS/EC2', 'AWS/Lambda']）。指定しない場合は一般的なAWSサービスの名前空間を使用。",
-        required: false
-      },
-      {
-        name: "period",
-        type: "number",
-        description: "メトリクスの期間（秒）。デフォルトは60秒。",
-        required: false
-      },
-      {
-        name: "stat",
-        type: "string",
-        description: "集計方法（Average, Sum, Minimum, Maximum, SampleCount）。デフォルトはAverage。",
-        required: false
+    description: i18nInstance.translate("toolMetricsDescription"),
+    parameters: {
+      type: "object",
+      properties: {
+        metricNames: {
+          type: "array",
+          items: { type: "string" },
+          description: i18nInstance.translate("toolMetricsMetricNamesParameter")
+        },
+        namespaces: {
+          type: "array",
+          items: { type: "string" },
+          description: i18nInstance.translate("toolMetricsNamespacesParameter")
+        },
+        period: {
+          type: "integer",
+          minimum: 1,
+          description: i18nInstance.translate("toolMetricsPeriodParameter")
+        },
+        stat: {
+          type: "string",
+          enum: ["Average", "Sum", "Minimum", "Maximum", "SampleCount"],
+          description: i18nInstance.translate("toolMetricsStatParameter")
+        },
+        ...timeWindowParameters
       }
-    ],
-    execute: async (params: {
-      metricNames?: string[];
-      namespaces?: string[];
-      period?: number;
-      stat?: string;
-    }) => {
-      return await metricsToolExecutor({
-        ...params,
-        startDate: globalParams.startDate,
-        endDate: globalParams.endDate,
+    },
+    execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
+      return await executeInTimeWindow("metrics_tool", params, async (toolParams, window) => await metricsToolExecutor({
+        ...(toolParams as {
+          metricNames?: string[];
+          namespaces?: string[];
+          period?: number;
+          stat?: string;
+        }),
+        ...window,
+        abortSignal,
+        timezone: globalParams.timezone,
         i18n: i18nInstance // Pass i18n instance
-      });
+      }));
     }
   });
   
-  // Logs tool - CloudWatch Logsのロググループが設定されている場合のみ登録
+  // Logs tool - registered only when CloudWatch Logs log groups are configured
   if (config.cwLogsLogGroups.length > 0) {
     toolRegistry.registerTool({
       name: "logs_tool",
-      description: `設定されたCloudWatch Logsからログを取得して分析します。フィルターパターンを指定できます。
-
-# CloudWatch Logs Insightsフィルター構文ガイド
-
-## 基本的なフィルター構文
-- @message like 'error' - エラーを含むメッセージ
-- @message like /Exception/ - 正規表現でExceptionを含むメッセージ
-- level = 'ERROR' - 特定のフィールドの値でフィルタリング
-- @timestamp > '2023-01-01' - 日付でフィルタリング
-
-## 演算子
-- like/not like - 部分一致（大文字小文字を区別しない）
-- =, !=, <, >, <=, >= - 比較演算子
-- and, or, not - 論理演算子
-
-## 構文ルール
-- 文字列は '単一引用符' または "二重引用符" で囲む（一貫して使用）
-- 正規表現は /スラッシュ/ で囲む
-- 複雑な条件は (括弧) でグループ化
-- 特殊文字は \\ でエスケープ
-
-## 例
-- @message like 'error' and status >= 500
-- (@message like 'timeout' or @message like 'connection refused')
-- @message like /ERROR.*timeout/
-
-詳細: https://docs.aws.amazon.com/ja_jp/AmazonCloudWatch/latest/logs/CWL_QuerySyntax.html`,
-      parameters: [
-        {
-          name: "filterPattern",
-          type: "string",
-          description: "CloudWatch Logs Insightsのフィルターパターン（例: '@message like \"error\"'）",
-          required: false
-        },
-        {
-          name: "limit",
-          type: "number",
-          description: "取得するログの最大数。デフォルトは100。",
-          required: false
+      description: i18nInstance.translate("toolLogsDescription"),
+      parameters: {
+        type: "object",
+        properties: {
+          filterPattern: {
+            type: "string",
+            description: i18nInstance.translate("toolLogsFilterPatternParameter")
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 10000,
+            description: i18nInstance.translate("toolLogsLimitParameter")
+          },
+          ...timeWindowParameters
         }
-      ],
-      execute: async (params: Record<string, unknown>) => {
-        // Type assertion
-        const typedParams = params as {
-          filterPattern?: string;
-          limit?: number;
-        };
-        return await logsToolExecutor({
-          ...typedParams,
-          startDate: globalParams.startDate,
-          endDate: globalParams.endDate,
-          i18n: i18nInstance // Pass i18n instance
+      },
+      execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
+        return await executeInTimeWindow("logs_tool", params, async (toolParams, window) => {
+          // Type assertion
+          const typedParams = toolParams as {
+            filterPattern?: string;
+            limit?: number;
+          };
+          return await logsToolExecutor({
+            ...typedParams,
+            ...window,
+            abortSignal,
+            timezone: globalParams.timezone,
+            i18n: i18nInstance // Pass i18n instance
+          });
         });
       }
     });
   }
   
-  // Audit log tool - CloudTrailログテーブルが存在する場合のみ登録
+  // Audit log tool - registered only when the CloudTrail log table exists
   if (config.cloudTrailLogTable) {
     toolRegistry.registerTool({
       name: "audit_log_tool",
-      description: "CloudTrailログからAuditログを取得して分析します。特定のサービスやイベント名でフィルタリングできます。",
-      parameters: [
-        {
-          name: "services",
-          type: "string[]",
-          description: "フィルタリングするサービス名の配列（例: ['ec2', 'lambda']）",
-          required: false
-        },
-        {
-          name: "eventNames",
-          type: "string[]",
-          description: "フィルタリングするイベント名の配列（例: ['CreateFunction', 'RunInstances']）",
-          required: false
-        },
-      ],
-      execute: async (params: {
-        services?: string[];
-        eventNames?: string[];
-        users?: string[];
-        region?: string;
-      }) => {
-        return await athenaLogToolExecutor({
-          ...params,
-          startDate: globalParams.startDate,
-          endDate: globalParams.endDate,
+      description: i18nInstance.translate("toolAuditLogDescription"),
+      parameters: {
+        type: "object",
+        properties: {
+          services: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAuditLogServicesParameter")
+          },
+          eventNames: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAuditLogEventNamesParameter")
+          },
+          ...timeWindowParameters
+        }
+      },
+      execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
+        return await executeInTimeWindow("audit_log_tool", params, async (toolParams, window) => await athenaLogToolExecutor({
+          ...(toolParams as {
+            services?: string[];
+            eventNames?: string[];
+            users?: string[];
+            region?: string;
+          }),
+          ...window,
+          abortSignal,
           logType: LogType.CLOUDTRAIL,
           i18n: i18nInstance // Pass i18n instance
-        });
+        }));
       }
     });
   }
   
-  // ALB log tool - ALBアクセスログテーブルが存在する場合のみ登録
+  // ALB log tool - registered only when the ALB access log table exists
   if (config.albAccessLogTable) {
     toolRegistry.registerTool({
       name: "alb_log_tool",
-      description: "ALBアクセスログを取得して分析します。ステータスコード、クライアントIP、パスなどでフィルタリングできます。",
-      parameters: [
-        {
-          name: "targetGroups",
-          type: "string[]",
-          description: "フィルタリングするターゲットグループARNの配列",
-          required: false
-        },
-        {
-          name: "statusCodes",
-          type: "string[]",
-          description: "フィルタリングするステータスコードの配列（例: ['200', '404', '500']）",
-          required: false
-        },
-        {
-          name: "clientIps",
-          type: "string[]",
-          description: "フィルタリングするクライアントIPの配列",
-          required: false
-        },
-        {
-          name: "paths",
-          type: "string[]",
-          description: "フィルタリングするリクエストパスの配列（例: ['/api', '/login']）",
-          required: false
-        },
-      ],
-      execute: async (params: {
-        targetGroups?: string[];
-        statusCodes?: string[];
-        clientIps?: string[];
-        paths?: string[];
-        userAgents?: string[];
-        region?: string;
-      }) => {
-        return await athenaLogToolExecutor({
-          ...params,
-          startDate: globalParams.startDate,
-          endDate: globalParams.endDate,
+      description: i18nInstance.translate("toolAlbLogDescription"),
+      parameters: {
+        type: "object",
+        properties: {
+          targetGroups: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAlbLogTargetGroupsParameter")
+          },
+          statusCodes: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAlbLogStatusCodesParameter")
+          },
+          clientIps: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAlbLogClientIpsParameter")
+          },
+          paths: {
+            type: "array",
+            items: { type: "string" },
+            description: i18nInstance.translate("toolAlbLogPathsParameter")
+          },
+          ...timeWindowParameters
+        }
+      },
+      execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
+        return await executeInTimeWindow("alb_log_tool", params, async (toolParams, window) => await athenaLogToolExecutor({
+          ...(toolParams as {
+            targetGroups?: string[];
+            statusCodes?: string[];
+            clientIps?: string[];
+            paths?: string[];
+            userAgents?: string[];
+            region?: string;
+          }),
+          ...window,
+          abortSignal,
           logType: LogType.ALB,
           i18n: i18nInstance // Pass i18n instance
-        });
+        }));
       }
     });
   }
   
-  // X-Ray tool - X-Rayトレースが有効な場合のみ登録
+  // X-Ray tool - registered only when X-Ray tracing is enabled
   if (config.xrayTraceEnabled) {
     toolRegistry.registerTool({
       name: "xray_tool",
-      description: "X-Rayからトレース情報を取得して分析します。エラーのあるトレースや遅いトレースを特定します。X-Rayトレースが有効な場合のみ使用できます。",
-      parameters: [
-        {
-          name: "filterExpression",
-          type: "string",
-          description: "X-Rayのフィルター式",
-          required: false
+      description: i18nInstance.translate("toolXrayDescription"),
+      parameters: {
+        type: "object",
+        properties: {
+          filterExpression: {
+            type: "string",
+            description: i18nInstance.translate("toolXrayFilterExpressionParameter")
+          },
+          ...timeWindowParameters
         }
-      ],
-      execute: async (params: {
-        filterExpression?: string;
-      }) => {
-        return await xrayToolExecutor({
-          ...params,
-          startDate: globalParams.startDate,
-          endDate: globalParams.endDate,
+      },
+      execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
+        return await executeInTimeWindow("xray_tool", params, async (toolParams, window) => await xrayToolExecutor({
+          ...(toolParams as {
+            filterExpression?: string;
+          }),
+          ...window,
+          abortSignal,
+          timezone: globalParams.timezone,
           i18n: i18nInstance // Pass i18n instance
-        });
+        }));
       }
     });
   }
   
-  // Knowledge Base tool - Knowledge Baseが有効な場合のみ登録
+  // Knowledge Base tool - registered only when the Knowledge Base is enabled
   if (config.knowledgeBaseEnabled) {
     toolRegistry.registerTool({
       name: "kb_tool",
-      description: "Knowledge Baseからドキュメントを検索します。障害対応の過去の事例や利用しているAWSサービスのドキュメントなどを参照できます。Knowledge Baseが有効な場合のみ使用できます。",
-      parameters: [
-        {
-          name: "query",
-          type: "string",
-          description: "検索クエリ",
-          required: true
+      description: i18nInstance.translate("toolKbDescription"),
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: i18nInstance.translate("toolKbQueryParameter")
+          },
+          maxResults: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            description: i18nInstance.translate("toolKbMaxResultsParameter")
+          }
         },
-        {
-          name: "maxResults",
-          type: "number",
-          description: "取得する結果の最大数。デフォルトは3。",
-          required: false
-        }
-      ],
-      execute: async (params: Record<string, unknown>) => {
+        required: ["query"]
+      },
+      execute: async (params: Record<string, unknown>, { abortSignal }: ToolExecutionContext) => {
         // Type assertion
         const typedParams = params as {
           query: string;
@@ -280,34 +297,46 @@ export function registerAllTools(
         };
         return await kbToolExecutor({
           ...typedParams,
+          abortSignal,
           i18n: i18nInstance // Pass i18n instance
         });
       }
     });
   }
   
-  // Final answer tool - 常に登録（エージェントの最終回答に必要）
+  // Final answer tool - always registered (needed for the final answer of the agent)
   toolRegistry.registerTool({
     name: "final_answer",
-    description: "障害分析の最終回答を生成します。十分な情報が集まり、根本原因と解決策が特定できた場合のみ使用してください。",
-    parameters: [
-      {
-        name: "content",
-        type: "string",
-        description: "最終回答の内容",
-        required: true
-      }
-    ],
+    description: i18nInstance.translate("toolFinalAnswerDescription"),
+    parameters: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          description: i18nInstance.translate("toolFinalAnswerContentParameter")
+        }
+      },
+      required: ["content"]
+    },
     execute: async (params: Record<string, unknown>) => {
       // This tool doesn't actually execute anything, it's specially handled by AgentEngine
       const typedParams = params as {
         content: string;
       };
-      return `最終回答を生成します: ${typedParams.content.substring(0, 50)}...`;
+      return {
+        status: ToolResultStatus.NO_DATA,
+        summary: `${i18nInstance.translate("agentGenerateFinalAnswer")} ${typedParams.content.substring(0, 50)}...`
+      };
     }
   });
   
-  // 登録されたツールの一覧をログに出力
+  // Tool plugins - the tools of the configured plugins are registered after the built-in tools
+  await registerToolPlugins(toolRegistry, config.toolPlugins, {
+    ...globalParams,
+    i18n: i18nInstance
+  });
+  
+  // Log the registered tools
   logger.info("Registered tools", { 
     registeredTools: toolRegistry.getAllToolNames().join(", ")
   });
@@ -4,6 +4,7 @@ import { logger } from "../logger.js";
 import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
 import { ConfigurationService } from "../configuration-service.js";
+import { ToolResult, ToolResultStatus } from "../tools-registry.js";
 
 export class KbTool {
   private i18n: I18nProvider;
@@ -20,8 +21,9 @@ export class KbTool {
     query: string;
     maxResults?: number;
     i18n?: I18nProvider;
+    abortSignal?: AbortSignal; // Aborted when the tool call times out
     configService?: ConfigurationService;
-  }): Promise<string> {
+  }): Promise<ToolResult> {
     // Update i18n if provided in params
     if (params.i18n) {
       this.i18n = params.i18n;
@@ -39,7 +41,7 @@ export class KbTool {
       const knowledgeBaseEnabled = this.configService.isKnowledgeBaseEnabled();
       
       if (!knowledgeBaseEnabled) {
-        return this.i18n.translate("kbDisabled");
+        return { status: ToolResultStatus.ERROR, summary: this.i18n.translate("kbDisabled") };
       }
       
       // Get configuration from configuration service
@@ -47,7 +49,7 @@ export class KbTool {
       const rerankModelId = this.configService.getRerankModelId();
       
       if (!knowledgeBaseId) {
-        return this.i18n.translate("kbIdNotConfigured");
+        return { status: ToolResultStatus.ERROR, summary: this.i18n.translate("kbIdNotConfigured") };
       }
       
       // Search from Knowledge Base
@@ -57,15 +59,16 @@ export class KbTool {
         results = await bedrockService.retrieve(
           knowledgeBaseId,
           params.query,
-          rerankModelId || undefined
+          rerankModelId || undefined,
+          params.abortSignal
         );
       } catch (retrieveError) {
         // If Knowledge Base doesn't exist or there's no access permission
         if (retrieveError instanceof Error) {
           if (retrieveError.message.includes("ResourceNotFoundException")) {
-            return this.i18n.formatTranslation("kbNotFound", knowledgeBaseId);
+            return { status: ToolResultStatus.ERROR, summary: this.i18n.formatTranslation("kbNotFound", knowledgeBaseId) };
           } else if (retrieveError.message.includes("AccessDeniedException")) {
-            return this.i18n.formatTranslation("kbAccessDenied", knowledgeBaseId);
+            return { status: ToolResultStatus.ERROR, summary: this.i18n.formatTranslation("kbAccessDenied", knowledgeBaseId) };
           }
         }
         throw retrieveError; // Handle other errors at a higher level
@@ -73,13 +76,25 @@ export class KbTool {
       
       // Format results in a readable format
       if (!results || results.length === 0) {
-        return this.i18n.formatTranslation("kbNoMatchingDocuments", params.query);
+        return {
+          status: ToolResultStatus.NO_DATA,
+          summary: this.i18n.formatTranslation("kbNoMatchingDocuments", params.query),
+          itemCount: 0
+        };
       }
       
-      return this.formatKBResults(results);
+      return {
+        status: ToolResultStatus.DATA,
+        summary: this.formatKBResults(results),
+        payload: results,
+        itemCount: results.length
+      };
     } catch (error) {
       logger.error("Error in Knowledge Base tool", { error });
-      return this.i18n.formatTranslation("kbQueryError", error instanceof Error ? error.message : String(error));
+      return {
+        status: ToolResultStatus.ERROR,
+        summary: this.i18n.formatTranslation("kbQueryError", error instanceof Error ? error.message : String(error))
+      };
     }
   }
   
@@ -110,8 +125,9 @@ export const kbToolExecutor = async (params: {
   query: string;
   maxResults?: number;
   i18n?: I18nProvider;
+  abortSignal?: AbortSignal; // Aborted when the tool call times out
   configService?: ConfigurationService;
-}): Promise<string> => {
+}): Promise<ToolResult> => {
   const kbTool = new KbTool(params.i18n, params.configService);
   return await kbTool.execute(params);
 };
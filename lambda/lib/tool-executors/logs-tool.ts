@@ -4,16 +4,20 @@ import { logger } from "../logger.js";
 import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
 import { ConfigurationService } from "../configuration-service.js";
+import { ToolResult, ToolResultStatus } from "../tools-registry.js";
+import { formatInTimezone } from "../timezone.js";
 
 export class LogsTool {
   private i18n: I18nProvider;
   private configService: ConfigurationService;
+  private timezone: string;
   
   constructor(i18n?: I18nProvider, configService?: ConfigurationService) {
     // Use provided i18n instance or get from factory
     this.i18n = i18n || getI18nProvider();
     // Use provided configuration service or get from singleton
     this.configService = configService || ConfigurationService.getInstance();
+    this.timezone = this.configService.getTimezone();
   }
   
   async execute(params: {
@@ -21,9 +25,11 @@ export class LogsTool {
     startDate: string;
     endDate: string;
     limit?: number;
+    timezone?: string;
     i18n?: I18nProvider;
+    abortSignal?: AbortSignal; // Aborted when the tool call times out
     configService?: ConfigurationService;
-  }): Promise<string> {
+  }): Promise<ToolResult> {
     // Update i18n if provided in params
     if (params.i18n) {
       this.i18n = params.i18n;
@@ -34,6 +40,9 @@ export class LogsTool {
       this.configService = params.configService;
     }
     
+    // Timezone of the user who requested the analysis takes precedence over the configured one
+    this.timezone = params.timezone || this.configService.getTimezone();
+    
     logger.info("Executing logs tool", { params });
     
     try {
@@ -41,7 +50,7 @@ export class LogsTool {
       const configuredLogGroups = this.configService.getCwLogsLogGroups();
       
       if (configuredLogGroups.length === 0) {
-        return this.i18n.translate("logsGroupsNotConfigured");
+        return { status: ToolResultStatus.ERROR, summary: this.i18n.translate("logsGroupsNotConfigured") };
       }
       
       logger.info("Using configured log groups", { configuredLogGroups });
@@ -68,11 +77,12 @@ export class LogsTool {
           params.startDate,
           params.endDate,
           configuredLogGroups,
-          queryString
+          queryString,
+          params.abortSignal
         );
         
         // Format results in a readable format
-        return this.formatLogsResults(results);
+        return this.toToolResult(results, this.formatLogsResults(results));
       } catch (error) {
         // In case of MalformedQueryException, use Bedrock to fix the query
         if (error instanceof Error && 
@@ -101,19 +111,28 @@ export class LogsTool {
                 params.startDate,
                 params.endDate,
                 configuredLogGroups,
-                fixedQueryString
+                fixedQueryString,
+                params.abortSignal
               );
               
-              return this.formatLogsResults(results) + 
-                this.i18n.formatTranslation("logsFixedFilterNote", fixedFilterPattern);
+              return this.toToolResult(
+                results,
+                this.formatLogsResults(results) + this.i18n.formatTranslation("logsFixedFilterNote", fixedFilterPattern)
+              );
             } catch (retryError) {
               // If retry also fails
               logger.error("Retry also failed", { retryError });
-              return this.i18n.formatTranslation("logsInvalidFilterPattern", params.filterPattern || "");
+              return {
+                status: ToolResultStatus.ERROR,
+                summary: this.i18n.formatTranslation("logsInvalidFilterPattern", params.filterPattern || "")
+              };
             }
           } else {
             // If it couldn't be fixed
-            return this.i18n.formatTranslation("logsInvalidFilterPattern", params.filterPattern || "");
+            return {
+              status: ToolResultStatus.ERROR,
+              summary: this.i18n.formatTranslation("logsInvalidFilterPattern", params.filterPattern || "")
+            };
           }
         }
         
@@ -122,10 +141,23 @@ export class LogsTool {
       }
     } catch (error) {
       logger.error("Error in logs tool", { error });
-      return this.i18n.formatTranslation("logsQueryError", error instanceof Error ? error.message : String(error));
+      return {
+        status: ToolResultStatus.ERROR,
+        summary: this.i18n.formatTranslation("logsQueryError", error instanceof Error ? error.message : String(error))
+      };
     }
   }
   
+  private toToolResult(results: LogResults, summary: string): ToolResult {
+    const itemCount = results?.length ?? 0;
+    return {
+      status: itemCount > 0 ? ToolResultStatus.DATA : ToolResultStatus.NO_DATA,
+      summary,
+      payload: results,
+      itemCount
+    };
+  }
+  
   /**
    * Use Bedrock to fix the filter pattern
    * @param filterPattern Original filter pattern
@@ -243,7 +275,7 @@ Fixed filter pattern:
           const timestampField = log.find((field: LogField) => field.field === "@timestamp");
           const messageField = log.find((field: LogField) => field.field === "@message");
           
-          const timestamp = timestampField ? timestampField.value : "";
+          const timestamp = timestampField?.value ? formatInTimezone(timestampField.value, this.timezone) : "";
           const message = messageField ? messageField.value : "";
           
           output += `**${timestamp}**\n\`\`\`\n${message}\n\`\`\`\n\n`;
@@ -284,8 +316,8 @@ Fixed filter pattern:
       const lastTimestamp = lastTimeField ? lastTimeField.value : "";
       
       if (firstTimestamp && lastTimestamp) {
-        output += this.i18n.formatTranslation("logsFirstLog", firstTimestamp);
-        output += this.i18n.formatTranslation("logsLastLog", lastTimestamp);
+        output += this.i18n.formatTranslation("logsFirstLog", formatInTimezone(firstTimestamp, this.timezone));
+        output += this.i18n.formatTranslation("logsLastLog", formatInTimezone(lastTimestamp, this.timezone));
         
         const firstDate = new Date(firstTimestamp);
         const lastDate = new Date(lastTimestamp);
@@ -312,7 +344,7 @@ Fixed filter pattern:
       const timestampField = log.find((field: LogField) => field.field === "@timestamp");
       const messageField = log.find((field: LogField) => field.field === "@message");
       
-      const timestamp = timestampField ? timestampField.value : "";
+      const timestamp = timestampField?.value ? formatInTimezone(timestampField.value, this.timezone) : "";
       const message = messageField ? messageField.value : "";
       
       output += `**${timestamp}**\n\`\`\`\n${message}\n\`\`\`\n\n`;
@@ -328,9 +360,11 @@ export const logsToolExecutor = async (params: {
   startDate: string;
   endDate: string;
   limit?: number;
+  timezone?: string;
   i18n?: I18nProvider;
+  abortSignal?: AbortSignal; // Aborted when the tool call times out
   configService?: ConfigurationService;
-}): Promise<string> => {
+}): Promise<ToolResult> => {
   const logsTool = new LogsTool(params.i18n, params.configService);
   return await logsTool.execute(params);
 };
@@ -3,9 +3,14 @@ import { MetricDataResult } from "@aws-sdk/client-cloudwatch";
 import { logger } from "../logger.js";
 import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
+import { ToolResult, ToolResultStatus } from "../tools-registry.js";
+import { ConfigurationService } from "../configuration-service.js";
+import { formatInTimezone } from "../timezone.js";
 
 export class MetricsTool {
   private i18n: I18nProvider;
+  // Set in execute, so that the configuration is not loaded when the module is imported
+  private timezone: string = "UTC";
   
   constructor(i18n?: I18nProvider) {
     // Use provided i18n instance or get from factory
@@ -20,12 +25,16 @@ export class MetricsTool {
     endDate: string;
     period?: number;
     stat?: string;
+    timezone?: string;
     i18n?: I18nProvider;
-  }): Promise<string> {
+    abortSignal?: AbortSignal; // Aborted when the tool call times out
+  }): Promise<ToolResult> {
     // Update i18n if provided in params
     if (params.i18n) {
       this.i18n = params.i18n;
     }
+    // Timezone of the user who requested the analysis takes precedence over the configured one
+    this.timezone = params.timezone || ConfigurationService.getInstance().getTimezone();
     logger.info("Executing metrics tool", { params });
     
     try {
@@ -45,7 +54,7 @@ export class MetricsTool {
       let metrics = [];
       for (const namespace of namespaces) {
         try {
-          const nsMetrics = await cloudWatchService.listMetrics(namespace);
+          const nsMetrics = await cloudWatchService.listMetrics(namespace, params.abortSignal);
           metrics.push(...nsMetrics);
           logger.info(`Retrieved ${nsMetrics.length} metrics from namespace ${namespace}`);
         } catch (error) {
@@ -62,7 +71,7 @@ export class MetricsTool {
       
       // If no metrics are found
       if (metrics.length === 0) {
-        return this.formatMetricsResults([]);
+        return { status: ToolResultStatus.NO_DATA, summary: this.formatMetricsResults([]), itemCount: 0 };
       }
       
       // Create MetricDataQuery
@@ -85,14 +94,22 @@ export class MetricsTool {
         params.startDate,
         params.endDate,
         metricDataQuery,
-        "MetricsToolResult"
+        "MetricsToolResult",
+        params.abortSignal
       );
       
       // Format results in a readable format
-      return this.formatMetricsResults(result);
+      // Metrics without data points in the time range are not counted as data
+      const itemCount = result.filter(metric => metric.Values && metric.Values.length > 0).length;
+      return {
+        status: itemCount > 0 ? ToolResultStatus.DATA : ToolResultStatus.NO_DATA,
+        summary: this.formatMetricsResults(result),
+        payload: result,
+        itemCount
+      };
     } catch (error) {
       logger.error("Error in metrics tool", { error });
-      return this.formatMetricsResults([]);
+      return { status: ToolResultStatus.ERROR, summary: this.formatMetricsResults([]) };
     }
   }
   
@@ -137,7 +154,7 @@ export class MetricsTool {
       if (anomalies.length > 0) {
         output += this.i18n.translate("metricsAnomalyDetection");
         anomalies.forEach((anomaly: { value: number, timestamp: Date }) => {
-          output += `- ${anomaly.timestamp.toISOString()}: ${anomaly.value.toFixed(4)}\n`;
+          output += `- ${formatInTimezone(anomaly.timestamp, this.timezone)}: ${anomaly.value.toFixed(4)}\n`;
         });
       }
       
@@ -160,7 +177,9 @@ export const metricsToolExecutor = async (params: {
   endDate: string;
   period?: number;
   stat?: string;
+  timezone?: string;
   i18n?: I18nProvider;
-}): Promise<string> => {
+  abortSignal?: AbortSignal; // Aborted when the tool call times out
+}): Promise<ToolResult> => {
   return await metricsTool.execute(params);
 };
@@ -4,6 +4,8 @@ import { logger } from "../logger.js";
 import { I18nProvider } from "../messaging/providers/i18n-provider.js";
 import { getI18nProvider } from "../messaging/providers/i18n-factory.js";
 import { ConfigurationService } from "../configuration-service.js";
+import { ToolResult, ToolResultStatus } from "../tools-registry.js";
+import { formatInTimezone } from "../timezone.js";
 
 // Define custom XrayTrace type
 interface XrayTrace {
@@ -34,21 +36,25 @@ interface XrayTrace {
 export class XrayTool {
   private i18n: I18nProvider;
   private configService: ConfigurationService;
+  private timezone: string;
   
   constructor(i18n?: I18nProvider, configService?: ConfigurationService) {
     // Use provided i18n instance or get from factory
     this.i18n = i18n || getI18nProvider();
     // Use provided configuration service or get from singleton
     this.configService = configService || ConfigurationService.getInstance();
+    this.timezone = this.configService.getTimezone();
   }
   
   async execute(params: {
     startDate: string;
     endDate: string;
     filterExpression?: string;
+    timezone?: string;
     i18n?: I18nProvider;
+    abortSignal?: AbortSignal; // Aborted when the tool call times out
     configService?: ConfigurationService;
-  }): Promise<string> {
+  }): Promise<ToolResult> {
     // Update i18n if provided in params
     if (params.i18n) {
       this.i18n = params.i18n;
@@ -59,13 +65,16 @@ export class XrayTool {
       this.configService = params.configService;
     }
     
+    // Timezone of the user who requested the analysis takes precedence over the configured one
+    this.timezone = params.timezone || this.configService.getTimezone();
+    
     logger.info("Executing X-Ray tool", { params });
     
     // Check if X-Ray trace is enabled using configuration service
     const xrayTraceEnabled = this.configService.isXrayTraceEnabled();
     
     if (!xrayTraceEnabled) {
-      return this.i18n.translate("xrayDisabled");
+      return { status: ToolResultStatus.ERROR, summary: this.i18n.translate("xrayDisabled") };
     }
     
     try {
@@ -73,19 +82,28 @@ export class XrayTool {
       const xrayService = AWSServiceFactory.getXRayService();
       const traces = await xrayService.queryToXray(
         params.startDate,
-        params.endDate
+        params.endDate,
+        params.abortSignal
       );
       
       // If no traces exist
       if (!traces || traces.length === 0) {
-        return this.i18n.translate("xrayNoTraces");
+        return { status: ToolResultStatus.NO_DATA, summary: this.i18n.translate("xrayNoTraces"), itemCount: 0 };
       }
       
       // Format results in a readable format
-      return this.formatXrayResults(traces);
+      return {
+        status: ToolResultStatus.DATA,
+        summary: this.formatXrayResults(traces),
+        payload: traces,
+        itemCount: traces.length
+      };
     } catch (error) {
       logger.error("Error in X-Ray tool", { error });
-      return this.i18n.formatTranslation("xrayQueryError", error instanceof Error ? error.message : String(error));
+      return {
+        status: ToolResultStatus.ERROR,
+        summary: this.i18n.formatTranslation("xrayQueryError", error instanceof Error ? error.message : String(error))
+      };
     }
   }
   
@@ -109,7 +127,7 @@ export class XrayTool {
       errorTraces.forEach((trace, index) => {
         if (index < 10) { // Show details for only the first 10 items
           output += this.i18n.formatTranslation("xrayTraceId", trace.Id || this.i18n.translate("xrayUnknown"));
-          output += this.i18n.formatTranslation("xrayStartTime", trace.StartTime ? new Date(trace.StartTime).toISOString() : this.i18n.translate("xrayUnknown"));
+          output += this.i18n.formatTranslation("xrayStartTime", trace.StartTime ? formatInTimezone(trace.StartTime, this.timezone) : this.i18n.translate("xrayUnknown"));
           output += this.i18n.formatTranslation("xrayResponseTime", trace.ResponseTime || this.i18n.translate("xrayUnknown"));
           output += this.i18n.formatTranslation("xrayStatus", trace.Http?.Response?.Status || this.i18n.translate("xrayUnknown"));
           
@@ -148,7 +166,7 @@ export class XrayTool {
       slowTraces.forEach(trace => {
         output += this.i18n.formatTranslation("xrayTraceIdLine", trace.Id || this.i18n.translate("xrayUnknown"));
         output += this.i18n.formatTranslation("xrayResponseTimeLine", trace.ResponseTime || this.i18n.translate("xrayUnknown"));
-        output += this.i18n.formatTranslation("xrayStartTimeLine", trace.StartTime ? new Date(trace.StartTime).toISOString() : this.i18n.translate("xrayUnknown"));
+        output += this.i18n.formatTranslation("xrayStartTimeLine", trace.StartTime ? formatInTimezone(trace.StartTime, this.timezone) : this.i18n.translate("xrayUnknown"));
         output += this.i18n.formatTranslation("xrayUrlLine", trace.Http?.HttpURL || this.i18n.translate("xrayUnknown"));
         output += this.i18n.formatTranslation("xrayMethodLine", trace.Http?.HttpMethod || this.i18n.translate("xrayUnknown"));
       });
@@ -194,9 +212,11 @@ export const xrayToolExecutor = async (params: {
   startDate: string;
   endDate: string;
   filterExpression?: string;
+  timezone?: string;
   i18n?: I18nProvider;
+  abortSignal?: AbortSignal; // Aborted when the tool call times out
   configService?: ConfigurationService;
-}): Promise<string> => {
+}): Promise<ToolResult> => {
   const xrayTool = new XrayTool(params.i18n, params.configService);
   return await xrayTool.execute(params);
 };
@@ -0,0 +1,113 @@
+import { isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { Tool, ToolRegistry } from "./tools-registry.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+import { logger } from "./logger.js";
+
+/**
+ * Plugin declared in the configuration
+ */
+export interface ToolPluginConfig {
+  name: string;
+  module: string; // Path of the plugin module, relative to the Lambda task root (or the current directory in local runs)
+  options?: Record<string, unknown>; // Passed to the plugin as they are (e.g. the endpoint URL or the table name)
+}
+
+/**
+ * Information passed to a plugin to create its tools
+ */
+export interface ToolPluginContext {
+  startDate: string; // Time range of the analysis (ISO 8601)
+  endDate: string;
+  timezone?: string; // Timezone to show the timestamps in the tool outputs
+  i18n: I18nProvider;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Contract of a tool plugin. The plugin module exports it as the default export
+ * The tools are registered after the built-in tools, and their parameters are validated in the same way
+ */
+export interface ToolPlugin {
+  name: string;
+  createTools(context: ToolPluginContext): Tool[] | Promise<Tool[]>;
+}
+
+/**
+ * Define a tool plugin with type checking
+ * @param plugin Tool plugin
+ * @returns The same plugin
+ */
+export function defineToolPlugin(plugin: ToolPlugin): ToolPlugin {
+  return plugin;
+}
+
+// Modules are imported once per Lambda container (at the cold start)
+const pluginModules = new Map<string, Promise<ToolPlugin | null>>();
+
+/**
+ * Import the plugin module
+ * @param config Plugin declared in the configuration
+ * @returns Plugin, or null when the module cannot be loaded (the analysis continues without its tools)
+ */
+export function loadToolPlugin(config: ToolPluginConfig): Promise<ToolPlugin | null> {
+  const cached = pluginModules.get(config.name);
+  if (cached) {
+    return cached;
+  }
+
+  const baseDirectory = process.env.LAMBDA_TASK_ROOT ?? process.cwd();
+  const modulePath = isAbsolute(config.module) ? config.module : resolve(baseDirectory, config.module);
+  const loading = import(pathToFileURL(modulePath).href)
+    .then((module: { default?: ToolPlugin }) => {
+      const plugin = module.default;
+      if (!plugin || typeof plugin.createTools !== "function") {
+        logger.error("Tool plugin does not export a plugin as the default export", { name: config.name, modulePath });
+        return null;
+      }
+      logger.info("Tool plugin loaded", { name: config.name, modulePath });
+      return plugin;
+    })
+    .catch((error: unknown) => {
+      logger.error("Failed to load tool plugin", { name: config.name, modulePath, error });
+      return null;
+    });
+  pluginModules.set(config.name, loading);
+  return loading;
+}
+
+/**
+ * Load the plugins and register their tools
+ * Tools whose names are already registered (e.g. built-in tools) are skipped
+ * @param toolRegistry Tool registry
+ * @param configs Plugins declared in the configuration
+ * @param context Context passed to the plugins, without the options of each plugin
+ */
+export async function registerToolPlugins(
+  toolRegistry: ToolRegistry,
+  configs: ToolPluginConfig[],
+  context: Omit<ToolPluginContext, "options">
+): Promise<void> {
+  for (const config of configs) {
+    const plugin = await loadToolPlugin(config);
+    if (!plugin) {
+      continue;
+    }
+
+    let tools: Tool[];
+    try {
+      tools = await plugin.createTools({ ...context, options: config.options ?? {} });
+    } catch (error) {
+      logger.error("Tool plugin failed to create tools", { name: config.name, error });
+      continue;
+    }
+
+    for (const tool of tools) {
+      if (toolRegistry.hasTool(tool.name)) {
+        logger.error("Tool of the plugin is already registered", { name: config.name, tool: tool.name });
+        continue;
+      }
+      toolRegistry.registerTool(tool);
+    }
+  }
+}
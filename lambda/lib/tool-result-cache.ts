@@ -0,0 +1,226 @@
+import { createHash } from "crypto";
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { ToolResult, ToolResultStatus } from "./tools-registry.js";
+import { ConfigurationService } from "./configuration-service.js";
+import { logger } from "./logger.js";
+
+/**
+ * Result of a tool call, reused for the calls with the same parameters in the same time range
+ */
+export interface CachedToolResult {
+  toolName: string;
+  status: ToolResultStatus;
+  summary: string;
+  itemCount?: number;
+  cachedAt: string; // Time the tool was executed (ISO 8601)
+}
+
+/**
+ * Storage of the results shared by the sessions (e.g. concurrent analyses of the same alarm)
+ */
+export interface SharedToolResultStore {
+  getToolResult(key: string): Promise<CachedToolResult | null>;
+  saveToolResult(key: string, result: CachedToolResult, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Analysis which the cached results belong to
+ * The summaries show the timestamps in the timezone and the labels in the language, so they are part of the key too
+ */
+export interface ToolResultScope {
+  startDate: string; // Time range of the analysis, which the tools query
+  endDate: string;
+  timezone: string;
+  language: string;
+}
+
+/**
+ * Cache of the tool results keyed by the tool name, the parameters and the scope of the analysis
+ * Results are kept in the session, and also in the shared store when it is set
+ * Results with the error status are not cached so that the tool is executed again
+ */
+export class ToolResultCache {
+  private entries: Map<string, CachedToolResult> = new Map();
+
+  /**
+   * @param scope Time range, timezone and language of the analysis
+   * @param shared Shared store and the time to keep the results in it
+   */
+  constructor(
+    private scope: ToolResultScope,
+    private shared?: { store: SharedToolResultStore; ttlSeconds: number }
+  ) {}
+
+  /**
+   * Get the cached result of the call
+   * @param toolName Tool name
+   * @param params Validated parameters
+   * @returns Cached result (null if the call was not cached)
+   */
+  async get(toolName: string, params: Record<string, unknown>): Promise<CachedToolResult | null> {
+    const key = this.createKey(toolName, params);
+    const cached = this.entries.get(key);
+    if (cached) {
+      return cached;
+    }
+    if (!this.shared) {
+      return null;
+    }
+
+    try {
+      const sharedResult = await this.shared.store.getToolResult(key);
+      if (sharedResult) {
+        this.entries.set(key, sharedResult);
+      }
+      return sharedResult;
+    } catch (error) {
+      // The tool is executed when the shared store is not available
+      logger.warn("Failed to get the shared tool result", { toolName, error });
+      return null;
+    }
+  }
+
+  /**
+   * Cache the result of the call
+   * @param toolName Tool name
+   * @param params Validated parameters
+   * @param result Result of the tool (the summary is already truncated)
+   */
+  async put(toolName: string, params: Record<string, unknown>, result: ToolResult): Promise<void> {
+    if (result.status === ToolResultStatus.ERROR) {
+      return;
+    }
+
+    const key = this.createKey(toolName, params);
+    const cached: CachedToolResult = {
+      toolName,
+      status: result.status,
+      summary: result.summary,
+      itemCount: result.itemCount,
+      cachedAt: new Date().toISOString()
+    };
+    this.entries.set(key, cached);
+
+    if (this.shared) {
+      try {
+        await this.shared.store.saveToolResult(key, cached, this.shared.ttlSeconds);
+      } catch (error) {
+        logger.warn("Failed to save the shared tool result", { toolName, error });
+      }
+    }
+  }
+
+  /**
+   * Get the cached results to save them in the session state
+   * The newest results are kept within the size, measured in bytes of the JSON with the keys
+   * @param maxBytes Maximum size of the cached results
+   */
+  getState(maxBytes: number): Record<string, CachedToolResult> {
+    const kept: [string, CachedToolResult][] = [];
+    let bytes = 0;
+    for (const [key, cached] of [...this.entries].reverse()) {
+      bytes += Buffer.byteLength(JSON.stringify({ [key]: cached }));
+      if (bytes > maxBytes) {
+        break;
+      }
+      kept.unshift([key, cached]);
+    }
+    return Object.fromEntries(kept);
+  }
+
+  /**
+   * Restore the cached results saved in the session state
+   */
+  restoreState(state: Record<string, CachedToolResult> | undefined): void {
+    this.entries = new Map(Object.entries(state ?? {}));
+  }
+
+  private createKey(toolName: string, params: Record<string, unknown>): string {
+    const { startDate, endDate, timezone, language } = this.scope;
+    const source = JSON.stringify([toolName, normalizeValue(params), startDate, endDate, timezone, language]);
+    return createHash("sha256").update(source).digest("hex");
+  }
+}
+
+/**
+ * Create the tool result cache of the configuration
+ * @param scope Time range, timezone and language of the analysis
+ * @param configService Configuration service
+ * @param sharedStore Shared store, used when the TTL of the shared results is configured
+ * @returns Cache (undefined when the cache is disabled)
+ */
+export function createToolResultCache(
+  scope: ToolResultScope,
+  configService: ConfigurationService,
+  sharedStore?: SharedToolResultStore
+): ToolResultCache | undefined {
+  if (!configService.isToolResultCacheEnabled()) {
+    return undefined;
+  }
+  const ttlSeconds = configService.getSharedToolResultCacheTtl();
+  return new ToolResultCache(scope, sharedStore && ttlSeconds ? { store: sharedStore, ttlSeconds } : undefined);
+}
+
+/**
+ * Sort the object keys and remove the empty values, so that the same parameters have the same key
+ */
+function normalizeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined && item !== null)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, item]) => [name, normalizeValue(item)])
+    );
+  }
+  return typeof value === "string" ? value.trim() : value;
+}
+
+/**
+ * Shared store using the session table
+ * The result is saved as an item (sk: RESULT) under pk TOOL_RESULT#<key>, which expires with the TTL of the table
+ */
+export class DynamoDBToolResultStore implements SharedToolResultStore {
+  private docClient: DynamoDBDocumentClient;
+
+  /**
+   * @param tableName Session table name
+   * @param docClient DynamoDBDocumentClient
+   */
+  constructor(private tableName: string, docClient?: DynamoDBDocumentClient) {
+    this.docClient = docClient || DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true }
+    });
+  }
+
+  async getToolResult(key: string): Promise<CachedToolResult | null> {
+    const response = await this.docClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { pk: `TOOL_RESULT#${key}`, sk: "RESULT" }
+    }));
+
+    // Expired items are deleted by DynamoDB some time after the TTL, so the TTL is checked here too
+    const item = response.Item;
+    if (!item || item.ttl <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    const { toolName, status, summary, itemCount, cachedAt } = item;
+    return { toolName, status, summary, itemCount, cachedAt };
+  }
+
+  async saveToolResult(key: string, result: CachedToolResult, ttlSeconds: number): Promise<void> {
+    await this.docClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        pk: `TOOL_RESULT#${key}`,
+        sk: "RESULT",
+        ...result,
+        ttl: Math.floor(Date.now() / 1000) + ttlSeconds
+      }
+    }));
+  }
+}
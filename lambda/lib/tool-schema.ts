@@ -0,0 +1,181 @@
+/**
+ * Subset of JSON Schema used to define the tool parameters
+ * The same schema is sent as the input schema of the Converse API tool spec and shown in the XML mode prompt
+ */
+export type JsonSchema = {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema; // array only
+  minItems?: number; // array only
+  maxItems?: number; // array only
+  properties?: Record<string, JsonSchema>; // object only
+  required?: string[]; // object only
+};
+
+/**
+ * Parameters of a tool, which are always an object
+ */
+export type ToolParameterSchema = JsonSchema & {
+  type: "object";
+  properties: Record<string, JsonSchema>;
+};
+
+/**
+ * Parameter which does not match the schema
+ */
+export interface ParameterValidationError {
+  path: string; // e.g. "metricNames[0]"
+  message: string;
+  received?: unknown;
+}
+
+/**
+ * Result of the validation
+ */
+export interface ParameterValidationResult {
+  value: Record<string, unknown>; // Parameters converted to the types of the schema
+  errors: ParameterValidationError[];
+}
+
+/**
+ * Error thrown when the parameters passed by the model do not match the schema of the tool
+ * The errors are returned to the model so that it can correct the parameters in the next cycle
+ */
+export class ToolParameterValidationError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly errors: ParameterValidationError[]
+  ) {
+    super(`Invalid parameters for tool ${toolName}: ${errors.map(error => `${error.path} ${error.message}`).join(", ")}`);
+    this.name = 'ToolParameterValidationError';
+  }
+}
+
+/**
+ * Validate the parameters with the schema of the tool
+ * Values which models often pass in a different type are converted (e.g. "300" for a number, "CPUUtilization" for an array of strings)
+ * @param schema Parameter schema of the tool
+ * @param params Parameters passed by the model
+ * @returns Converted parameters and the validation errors (empty when valid)
+ */
+export function validateToolParameters(schema: ToolParameterSchema, params: Record<string, unknown>): ParameterValidationResult {
+  const errors: ParameterValidationError[] = [];
+  const value = validateValue(schema, params, "", errors) as Record<string, unknown>;
+  return { value: errors.length === 0 ? value : params, errors };
+}
+
+function validateValue(schema: JsonSchema, value: unknown, path: string, errors: ParameterValidationError[]): unknown {
+  const coerced = coerceValue(schema, value);
+  const fail = (message: string) => {
+    errors.push({ path: path || "(parameters)", message, received: value });
+    return value;
+  };
+
+  switch (schema.type) {
+    case "string":
+      if (typeof coerced !== "string") {
+        return fail("must be a string");
+      }
+      break;
+    case "number":
+    case "integer":
+      if (typeof coerced !== "number" || !Number.isFinite(coerced)) {
+        return fail(`must be ${schema.type === "integer" ? "an integer" : "a number"}`);
+      }
+      if (schema.type === "integer" && !Number.isInteger(coerced)) {
+        return fail("must be an integer");
+      }
+      if (schema.minimum !== undefined && coerced < schema.minimum) {
+        return fail(`must be greater than or equal to ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && coerced > schema.maximum) {
+        return fail(`must be less than or equal to ${schema.maximum}`);
+      }
+      break;
+    case "boolean":
+      if (typeof coerced !== "boolean") {
+        return fail("must be a boolean");
+      }
+      break;
+    case "array": {
+      if (!Array.isArray(coerced)) {
+        return fail("must be an array");
+      }
+      if (schema.minItems !== undefined && coerced.length < schema.minItems) {
+        return fail(`must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && coerced.length > schema.maxItems) {
+        return fail(`must have at most ${schema.maxItems} items`);
+      }
+      const itemSchema = schema.items;
+      return itemSchema
+        ? coerced.map((item, index) => validateValue(itemSchema, item, `${path}[${index}]`, errors))
+        : coerced;
+    }
+    case "object": {
+      if (typeof coerced !== "object" || coerced === null || Array.isArray(coerced)) {
+        return fail("must be an object");
+      }
+      const object = { ...(coerced as Record<string, unknown>) };
+      for (const name of schema.required ?? []) {
+        if (object[name] === undefined || object[name] === null) {
+          errors.push({ path: path ? `${path}.${name}` : name, message: "is required" });
+        }
+      }
+      // Properties not in the schema are passed as they are
+      for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (object[name] === undefined || object[name] === null) {
+          delete object[name];
+          continue;
+        }
+        object[name] = validateValue(propertySchema, object[name], path ? `${path}.${name}` : name, errors);
+      }
+      return object;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(coerced as string | number)) {
+    return fail(`must be one of ${schema.enum.join(", ")}`);
+  }
+  return coerced;
+}
+
+/**
+ * Convert the value to the type of the schema when it is unambiguous, otherwise return it as it is
+ */
+function coerceValue(schema: JsonSchema, value: unknown): unknown {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "number" || typeof value === "boolean" ? String(value) : value;
+    case "number":
+    case "integer":
+      return typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "array":
+      if (typeof value === "string") {
+        // A JSON array in a string, or a single item
+        if (value.trim().startsWith("[")) {
+          try {
+            return JSON.parse(value);
+          } catch {
+            return value;
+          }
+        }
+        return [value];
+      }
+      return typeof value === "number" || typeof value === "boolean" ? [value] : value;
+    case "object":
+      if (typeof value === "string" && value.trim().startsWith("{")) {
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      }
+      return value;
+  }
+}
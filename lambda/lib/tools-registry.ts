@@ -1,34 +1,117 @@
+import { ToolConfiguration } from "@aws-sdk/client-bedrock-runtime";
 import { logger } from "./logger.js";
+import { ToolParameterSchema, ToolParameterValidationError, validateToolParameters } from "./tool-schema.js";
+import { truncateObservation } from "./observation-truncation.js";
+import { CachedToolResult, ToolResultCache } from "./tool-result-cache.js";
+import { I18nProvider } from "./messaging/providers/i18n-provider.js";
+import { getI18nProvider } from "./messaging/providers/i18n-factory.js";
 
-export interface ToolParameter {
+export interface ToolDescription {
   name: string;
-  type: string;
   description: string;
-  required: boolean;
+  parameters: ToolParameterSchema;
 }
 
-export interface ToolDescription {
-  name: string;
-  description: string;
-  parameters: ToolParameter[];
+export enum ToolResultStatus {
+  DATA = 'data', // Data was found
+  NO_DATA = 'no-data', // The tool worked but found nothing
+  ERROR = 'error' // The tool could not get the data (not configured, query error, etc.)
+}
+
+export interface ToolResult {
+  status: ToolResultStatus;
+  summary: string; // Text passed to the model as the observation
+  payload?: unknown; // Raw data the summary was made from
+  itemCount?: number; // Number of metrics, logs, traces or documents found
+  cachedAt?: string; // Time the cached result was executed, set when the tool was not executed again
+}
+
+/**
+ * Context of a tool execution
+ */
+export interface ToolExecutionContext {
+  abortSignal: AbortSignal; // Aborted when the execution times out, to be passed to the AWS SDK calls of the tool
 }
 
 export interface Tool {
   name: string;
   description: string;
-  parameters: ToolParameter[];
-  execute: (params: Record<string, unknown>) => Promise<string>;
+  parameters: ToolParameterSchema; // JSON Schema of the parameters, which are validated before execute
+  timeoutMs?: number; // Overrides the timeout passed to executeTool
+  execute: (params: Record<string, unknown>, context: ToolExecutionContext) => Promise<ToolResult>;
+}
+
+export interface ToolExecutionOptions {
+  timeoutMs?: number;
+}
+
+/**
+ * Limits of the tool executions
+ */
+export interface ToolExecutionLimits {
+  defaultTimeoutMs: number;
+  timeoutsMs: Record<string, number>; // Timeout by tool name, which takes precedence over the timeout of the tool
+  maxObservationLength: number; // Maximum characters of an observation, longer ones are truncated
+  failureThreshold: number; // Consecutive failures to disable a tool for the rest of the session
+}
+
+export const DEFAULT_TOOL_EXECUTION_LIMITS: ToolExecutionLimits = {
+  defaultTimeoutMs: 5 * 60 * 1000,
+  timeoutsMs: {},
+  maxObservationLength: 20000,
+  failureThreshold: 3
+};
+
+/**
+ * Consecutive failures of the tools, kept in the session state so that a disabled tool stays disabled in the next steps
+ */
+export interface ToolCircuitState {
+  failures: Record<string, number>;
+  disabled: string[];
+}
+
+/**
+ * Error thrown when a disabled tool is called
+ */
+export class ToolDisabledError extends Error {
+  constructor(
+    public readonly toolName: string,
+    public readonly failures: number
+  ) {
+    super(`Tool ${toolName} is disabled after ${failures} consecutive failures`);
+    this.name = 'ToolDisabledError';
+  }
 }
 
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  private limits: ToolExecutionLimits;
+  private i18n?: I18nProvider;
+  private failures: Map<string, number> = new Map();
+  private disabledTools: Set<string> = new Set();
+  private resultCache?: ToolResultCache;
+  
+  /**
+   * @param limits Limits of the tool executions (default limits if omitted)
+   * @param i18n I18n provider of the truncation marker (uses the factory if omitted)
+   * @param resultCache Cache of the results of the calls with the same parameters (every call is executed if omitted)
+   */
+  constructor(limits?: Partial<ToolExecutionLimits>, i18n?: I18nProvider, resultCache?: ToolResultCache) {
+    this.limits = { ...DEFAULT_TOOL_EXECUTION_LIMITS, ...limits };
+    this.i18n = i18n;
+    this.resultCache = resultCache;
+  }
   
   registerTool(tool: Tool): void {
     logger.info(`Registering tool: ${tool.name}`);
     this.tools.set(tool.name, tool);
   }
   
-  async executeTool(toolName: string, params: Record<string, unknown>): Promise<string> {
+  async executeTool(
+    toolName: string,
+    params: Record<string, unknown>,
+    options?: ToolExecutionOptions
+  ): Promise<ToolResult> {
     logger.info(`Executing tool: ${toolName}`, { params });
     
     const tool = this.tools.get(toolName);
@@ -36,34 +119,185 @@ export class ToolRegistry {
       throw new Error(`Tool ${toolName} not found`);
     }
     
-    this.validateParameters(tool, params);
+    if (this.disabledTools.has(toolName)) {
+      throw new ToolDisabledError(toolName, this.failures.get(toolName) ?? 0);
+    }
+    
+    const validatedParams = this.validateParameters(tool, params);
+    
+    const cached = await this.resultCache?.get(toolName, validatedParams);
+    if (cached) {
+      logger.info(`Tool ${toolName} result is cached`, { status: cached.status, cachedAt: cached.cachedAt });
+      return { status: cached.status, summary: cached.summary, itemCount: cached.itemCount, cachedAt: cached.cachedAt };
+    }
+    
+    const timeoutMs = this.limits.timeoutsMs[toolName] ?? tool.timeoutMs ?? options?.timeoutMs ?? this.limits.defaultTimeoutMs;
     
+    let result: ToolResult;
     try {
-      const result = await tool.execute(params);
-      logger.info(`Tool ${toolName} executed successfully`);
-      return result;
+      result = await this.executeWithTimeout(tool, validatedParams, timeoutMs);
     } catch (error) {
       logger.error(`Error executing tool ${toolName}`, { error });
+      // Invalid parameters found by the tool itself (e.g. the time range) are not failures either
+      if (!(error instanceof ToolParameterValidationError)) {
+        this.recordOutcome(toolName, false);
+      }
       throw error;
     }
+    
+    logger.info(`Tool ${toolName} executed successfully`, { status: result.status, itemCount: result.itemCount });
+    this.recordOutcome(toolName, result.status !== ToolResultStatus.ERROR);
+    const truncatedResult = { ...result, summary: this.truncateSummary(toolName, result.summary) };
+    await this.resultCache?.put(toolName, validatedParams, truncatedResult);
+    return truncatedResult;
+  }
+  
+  /**
+   * Whether the tool is disabled by repeated failures
+   */
+  isToolDisabled(toolName: string): boolean {
+    return this.disabledTools.has(toolName);
+  }
+  
+  /**
+   * Get the consecutive failures of the tools to save them in the session state
+   */
+  getCircuitState(): ToolCircuitState {
+    return {
+      failures: Object.fromEntries(this.failures),
+      disabled: [...this.disabledTools]
+    };
+  }
+  
+  /**
+   * Restore the consecutive failures of the tools saved in the session state
+   */
+  restoreCircuitState(state: ToolCircuitState | undefined): void {
+    this.failures = new Map(Object.entries(state?.failures ?? {}));
+    this.disabledTools = new Set(state?.disabled ?? []);
+  }
+  
+  /**
+   * Get the cached results to save them in the session state
+   * @param maxBytes Maximum size of the cached results in the session state (UTF-8 JSON)
+   */
+  getResultCacheState(maxBytes: number): Record<string, CachedToolResult> | undefined {
+    return this.resultCache?.getState(maxBytes);
+  }
+  
+  /**
+   * Restore the cached results saved in the session state
+   */
+  restoreResultCacheState(state: Record<string, CachedToolResult> | undefined): void {
+    this.resultCache?.restoreState(state);
+  }
+  
+  /**
+   * Count the consecutive failures and disable the tool when they reach the threshold
+   * A result with the error status is also a failure, but invalid parameters are not (the model can correct them)
+   */
+  private recordOutcome(toolName: string, succeeded: boolean): void {
+    if (succeeded) {
+      this.failures.delete(toolName);
+      return;
+    }
+    const failures = (this.failures.get(toolName) ?? 0) + 1;
+    this.failures.set(toolName, failures);
+    if (failures >= this.limits.failureThreshold) {
+      logger.warn(`Tool ${toolName} is disabled after ${failures} consecutive failures`);
+      this.disabledTools.add(toolName);
+    }
   }
   
-  private validateParameters(tool: Tool, params: Record<string, unknown>): void {
-    for (const param of tool.parameters) {
-      if (param.required && (params[param.name] === undefined || params[param.name] === null)) {
-        throw new Error(`Required parameter '${param.name}' is missing for tool '${tool.name}'`);
+  /**
+   * Truncate the observation so that it does not use up the context window of the next prompt
+   */
+  private truncateSummary(toolName: string, summary: string): string {
+    if (summary.length <= this.limits.maxObservationLength) {
+      return summary;
+    }
+    logger.info(`Observation of tool ${toolName} is truncated`, { length: summary.length, maxLength: this.limits.maxObservationLength });
+    const i18n = this.i18n ?? getI18nProvider();
+    return truncateObservation(
+      summary,
+      this.limits.maxObservationLength,
+      lineCount => i18n.formatTranslation("toolObservationTruncated", lineCount)
+    );
+  }
+  
+  /**
+   * Execute a tool and reject if it does not finish within the timeout
+   * The execution is aborted on the timeout so that the tool does not keep running in the next steps
+   */
+  private async executeWithTimeout(tool: Tool, params: Record<string, unknown>, timeoutMs: number): Promise<ToolResult> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Tool ${tool.name} timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    
+    const execution = tool.execute(params, { abortSignal: controller.signal });
+    // The execution may reject after the timeout, when nothing awaits it any more
+    execution.catch(error => {
+      if (controller.signal.aborted) {
+        logger.warn(`Tool ${tool.name} failed after the timeout`, { error });
       }
+    });
+    
+    try {
+      return await Promise.race([execution, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  
+  /**
+   * Validate the parameters with the schema of the tool and convert them to its types
+   * @throws ToolParameterValidationError when the parameters do not match the schema
+   */
+  private validateParameters(tool: Tool, params: Record<string, unknown>): Record<string, unknown> {
+    const { value, errors } = validateToolParameters(tool.parameters, params);
+    if (errors.length > 0) {
+      logger.warn(`Invalid parameters for tool ${tool.name}`, { params, errors });
+      throw new ToolParameterValidationError(tool.name, errors);
     }
+    return value;
   }
   
+  /**
+   * Get the descriptions of the tools offered to the model
+   * The tools disabled by repeated failures are not offered
+   */
   getToolDescriptions(): ToolDescription[] {
-    return Array.from(this.tools.values()).map(tool => ({
+    return Array.from(this.tools.values()).filter(tool => !this.disabledTools.has(tool.name)).map(tool => ({
       name: tool.name,
       description: tool.description,
       parameters: tool.parameters
     }));
   }
   
+  /**
+   * Build the tool configuration for the Bedrock Converse API from the tools offered to the model
+   */
+  getToolConfiguration(): ToolConfiguration {
+    return {
+      tools: this.getToolDescriptions().map(tool => ({
+        toolSpec: {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: {
+            json: tool.parameters
+          }
+        }
+      })),
+      toolChoice: { auto: {} }
+    };
+  }
+  
   hasTool(toolName: string): boolean {
     return this.tools.has(toolName);
   }
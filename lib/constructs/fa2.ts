@@ -6,6 +6,8 @@ import {
   aws_lambda_nodejs as lambdaNodejs,
   aws_logs as logs,
   aws_secretsmanager as secretsManager,
+  aws_stepfunctions as sfn,
+  aws_stepfunctions_tasks as tasks,
   Duration,
   Stack,
   RemovalPolicy,
@@ -13,10 +15,12 @@ import {
 import { Construct } from "constructs";
 import * as path from "path";
 import { Bucket } from "./bucket";
-import { Language, SlashCommands } from "../../parameter";
+import { HistoryCompressionMode, Language, ModelPricing, OrchestrationMode, SlashCommands, ToolPlugin, ToolUseMode } from "../../parameter";
 
 interface FA2Props {
   language: Language;
+  timezone?: string;
+  detectUserTimezone?: boolean;
   modelId: string;
   slackAppTokenKey: string;
   slackSigningSecretKey: string;
@@ -30,6 +34,24 @@ interface FA2Props {
   slashCommands: SlashCommands;
   detectorId?: string;
   maxAgentCycles?: number;
+  toolUseMode?: ToolUseMode;
+  promptCaching?: boolean;
+  orchestrationMode?: OrchestrationMode;
+  analysisTimeoutMinutes?: number;
+  sessionRecording?: boolean;
+  tokenBudget?: number;
+  costBudgetUsd?: number;
+  modelPricing?: ModelPricing;
+  historyCompression?: HistoryCompressionMode;
+  historyTokenLimit?: number;
+  summaryModelId?: string;
+  toolPlugins?: ToolPlugin[];
+  toolTimeouts?: Record<string, number>;
+  maxObservationLength?: number;
+  toolFailureThreshold?: number;
+  toolResultCache?: boolean;
+  sharedToolResultCacheTtlSeconds?: number;
+  maxLookbackMinutes?: number;
 }
 
 export class FA2 extends Construct {
@@ -40,6 +62,8 @@ export class FA2 extends Construct {
   slackHandlerRole: iam.Role;
   slackRestApi: apigateway.RestApi;
   sessionTable: dynamodb.Table;
+  agentLoopStateMachine?: sfn.StateMachine;
+  analysisStateMachine?: sfn.StateMachine;
   constructor(scope: Construct, id: string, props: FA2Props) {
     super(scope, id);
 
@@ -157,6 +181,7 @@ export class FA2 extends Construct {
       environment: {
         MODEL_ID: props.modelId,
         LANG: props.language,
+        TIMEZONE: props.timezone || "Asia/Tokyo",
         SLACK_APP_TOKEN_KEY: props.slackAppTokenKey,
         ARCHITECTURE_DESCRIPTION: props.architectureDescription,
         CW_LOGS_LOGGROUPS: JSON.stringify({
@@ -165,6 +190,21 @@ export class FA2 extends Construct {
         CW_LOGS_INSIGHT_QUERY: props.cwLogsInsightQuery,
         SESSION_TABLE_NAME: this.sessionTable.tableName,
         MAX_AGENT_CYCLES: props.maxAgentCycles?.toString() || "5",
+        TOOL_USE_MODE: props.toolUseMode || "native",
+        PROMPT_CACHING: props.promptCaching === false ? "false" : "true",
+        SESSION_RECORDING: props.sessionRecording ? "true" : "false",
+        TOKEN_BUDGET: props.tokenBudget?.toString() || "",
+        COST_BUDGET_USD: props.costBudgetUsd?.toString() || "",
+        MODEL_PRICING: props.modelPricing ? JSON.stringify(props.modelPricing) : "",
+        HISTORY_COMPRESSION: props.historyCompression || "truncate",
+        HISTORY_TOKEN_LIMIT: props.historyTokenLimit?.toString() || "",
+        SUMMARY_MODEL_ID: props.summaryModelId || "",
+        TOOL_TIMEOUTS: props.toolTimeouts ? JSON.stringify(props.toolTimeouts) : "",
+        MAX_OBSERVATION_LENGTH: props.maxObservationLength?.toString() || "",
+        TOOL_FAILURE_THRESHOLD: props.toolFailureThreshold?.toString() || "",
+        TOOL_RESULT_CACHE: props.toolResultCache === false ? "false" : "true",
+        SHARED_TOOL_RESULT_CACHE_TTL: props.sharedToolResultCacheTtlSeconds?.toString() || "",
+        MAX_LOOKBACK_MINUTES: props.maxLookbackMinutes?.toString() || "",
       },
       bundling: {
         minify: true,
@@ -172,7 +212,11 @@ export class FA2 extends Construct {
         externalModules: ["@aws-sdk/*"],
         tsconfig: path.join(__dirname, "../../tsconfig.json"),
         format: lambdaNodejs.OutputFormat.ESM,
-        banner: "import { createRequire } from 'module';const require = createRequire(import.meta.url);"
+        banner: "import { createRequire } from 'module';const require = createRequire(import.meta.url);",
+        // Tool plugins are bundled next to the function code and imported at cold start
+        ...(props.toolPlugins && props.toolPlugins.length > 0
+          ? { commandHooks: this.createToolPluginBundlingHooks(props.toolPlugins) }
+          : {})
       },
       tracing: lambda.Tracing.ACTIVE,
       recursiveLoop: lambda.RecursiveLoop.ALLOW, // Allow this func to loop recursively for agentic process
@@ -182,6 +226,27 @@ export class FA2 extends Construct {
     token.grantRead(fa2Function);
     this.sessionTable.grantReadWriteData(fa2Function);
 
+    // Team-specific tools declared as plugins
+    if (props.toolPlugins && props.toolPlugins.length > 0) {
+      for (const permission of props.toolPlugins.flatMap(plugin => plugin.permissions ?? [])) {
+        fa2BackendRole.addToPolicy(
+          new iam.PolicyStatement({
+            effect: iam.Effect.ALLOW,
+            actions: permission.actions,
+            resources: permission.resources,
+          }),
+        );
+      }
+      fa2Function.addEnvironment(
+        "TOOL_PLUGINS",
+        JSON.stringify(props.toolPlugins.map(plugin => ({
+          name: plugin.name,
+          module: `plugins/${plugin.name}.mjs`,
+          options: plugin.options ?? {},
+        }))),
+      );
+    }
+
     // Existed workload has athena database and tables
     if (
       props.databaseName &&
@@ -352,9 +417,13 @@ export class FA2 extends Construct {
         ),
         environment: {
           LANG: props.language,
+          TIMEZONE: props.timezone || "Asia/Tokyo",
           SLACK_APP_TOKEN_KEY: props.slackAppTokenKey,
           SLACK_SIGNING_SECRET_KEY: props.slackSigningSecretKey,
+          DETECT_USER_TIMEZONE: props.detectUserTimezone ? "true" : "false",
           FUNCTION_NAME: fa2Function.functionName,
+          SESSION_TABLE_NAME: this.sessionTable.tableName,
+          MAX_AGENT_CYCLES: props.maxAgentCycles?.toString() || "5",
         },
         role: slackHandlerRole,
         bundling: {
@@ -376,6 +445,8 @@ export class FA2 extends Construct {
     token.grantRead(slackHandler);
     signingSecret.grantRead(slackHandler);
     fa2Function.grantInvoke(slackHandler);
+    // To cancel, resume and rerun analysis sessions from Slack
+    this.sessionTable.grantReadWriteData(slackHandler);
 
     const logGroup = new logs.LogGroup(this, "ApiGatewayLogGroup");
     const restApi = new apigateway.RestApi(this, "SlackHandlerEndpoint", {
@@ -400,6 +471,103 @@ export class FA2 extends Construct {
       new apigateway.LambdaIntegration(slackHandler),
     );
 
+    // Drive the ReAct loop with Step Functions instead of self invocation of the agent function
+    if (props.orchestrationMode === "stepfunctions") {
+      fa2Function.addEnvironment("ORCHESTRATION_MODE", "stepfunctions");
+
+      const stepInput = {
+        errorDescription: sfn.JsonPath.stringAt("$.errorDescription"),
+        startDate: sfn.JsonPath.stringAt("$.startDate"),
+        endDate: sfn.JsonPath.stringAt("$.endDate"),
+        timezone: sfn.JsonPath.stringAt("$.timezone"),
+        channelId: sfn.JsonPath.stringAt("$.channelId"),
+        threadTs: sfn.JsonPath.stringAt("$.threadTs"),
+        sessionId: sfn.JsonPath.stringAt("$.sessionId"),
+        maxAgentCycles: sfn.JsonPath.numberAt("$.maxAgentCycles"),
+        followUpQuestion: sfn.JsonPath.stringAt("$.followUpQuestion"),
+      };
+
+      // Execute THINKING/ACTING/OBSERVING/COMPLETING steps one by one until the agent finishes the analysis.
+      // The step sequence number returned by the function lets a retried step be skipped when it was already saved
+      const executeStep = new tasks.LambdaInvoke(this, "ExecuteAgentStep", {
+        lambdaFunction: fa2Function,
+        payload: sfn.TaskInput.fromObject({
+          ...stepInput,
+          step: sfn.JsonPath.numberAt("$.stepResult.step"),
+        }),
+        payloadResponseOnly: true,
+        resultSelector: { "isDone.$": "$.isDone", "step.$": "$.step" },
+        resultPath: "$.stepResult",
+      });
+      executeStep.addRetry({
+        errors: [sfn.Errors.TASKS_FAILED],
+        interval: Duration.seconds(10),
+        maxAttempts: 2,
+        backoffRate: 2,
+      });
+
+      const agentLoop = new sfn.StateMachine(this, "AgentLoop", {
+        definitionBody: sfn.DefinitionBody.fromChainable(
+          executeStep.next(
+            new sfn.Choice(this, "IsAnalysisDone")
+              .when(
+                sfn.Condition.booleanEquals("$.stepResult.isDone", true),
+                new sfn.Succeed(this, "AnalysisDone"),
+              )
+              .otherwise(executeStep),
+          ),
+        ),
+        tracingEnabled: true,
+        logs: {
+          destination: new logs.LogGroup(this, "AgentLoopLogGroup"),
+          level: sfn.LogLevel.ALL,
+        },
+      });
+      this.agentLoopStateMachine = agentLoop;
+
+      // Run the loop with the global timeout, and notify Slack when the loop fails or times out
+      const runAgentLoop = new tasks.StepFunctionsStartExecution(this, "RunAgentLoop", {
+        stateMachine: agentLoop,
+        integrationPattern: sfn.IntegrationPattern.RUN_JOB,
+        // Resumed sessions start from the step given by the Slack handler
+        input: sfn.TaskInput.fromObject({
+          ...stepInput,
+          stepResult: { isDone: false, step: sfn.JsonPath.numberAt("$.step") },
+        }),
+        name: sfn.JsonPath.format("{}-{}", sfn.JsonPath.stringAt("$.sessionId"), sfn.JsonPath.stringAt("$.step")),
+        taskTimeout: sfn.Timeout.duration(
+          Duration.minutes(props.analysisTimeoutMinutes ?? 60),
+        ),
+        resultPath: sfn.JsonPath.DISCARD,
+      });
+      const notifyFailure = new tasks.LambdaInvoke(this, "NotifyAnalysisFailure", {
+        lambdaFunction: fa2Function,
+        payload: sfn.TaskInput.fromObject({
+          ...stepInput,
+          failure: sfn.JsonPath.objectAt("$.failure"),
+        }),
+        resultPath: sfn.JsonPath.DISCARD,
+      });
+      runAgentLoop.addCatch(
+        notifyFailure.next(new sfn.Fail(this, "AnalysisFailed")),
+        { resultPath: "$.failure" },
+      );
+
+      const analysisStateMachine = new sfn.StateMachine(this, "AnalysisStateMachine", {
+        definitionBody: sfn.DefinitionBody.fromChainable(runAgentLoop),
+        tracingEnabled: true,
+        logs: {
+          destination: new logs.LogGroup(this, "AnalysisStateMachineLogGroup"),
+          level: sfn.LogLevel.ALL,
+        },
+      });
+      this.analysisStateMachine = analysisStateMachine;
+
+      analysisStateMachine.grantStartExecution(slackHandler);
+      slackHandler.addEnvironment("ORCHESTRATION_MODE", "stepfunctions");
+      slackHandler.addEnvironment("STATE_MACHINE_ARN", analysisStateMachine.stateMachineArn);
+    }
+
     // For the command of metrics insight
     if(props.slashCommands.insight){
       const metricsInsightRole = new iam.Role(this, "MetricsInsightRole", {
@@ -547,4 +715,23 @@ export class FA2 extends Construct {
       findingsReportFunction.grantInvoke(slackHandler); 
     }
   }
+
+  /**
+   * Create the bundling hooks which bundle each tool plugin into plugins/<name>.mjs of the function code
+   * The plugins import the modules of the agent, so they are bundled in the same way as the function
+   */
+  private createToolPluginBundlingHooks(toolPlugins: ToolPlugin[]): lambdaNodejs.ICommandHooks {
+    return {
+      beforeBundling: () => [],
+      beforeInstall: () => [],
+      afterBundling: (inputDir: string, outputDir: string) => toolPlugins.map(plugin => [
+        "npx esbuild",
+        `"${path.posix.join(inputDir, plugin.entry)}"`,
+        "--bundle --minify --keep-names --platform=node --format=esm --target=node20",
+        "--external:@aws-sdk/*",
+        `--banner:js="import { createRequire } from 'module';const require = createRequire(import.meta.url);"`,
+        `--outfile="${path.posix.join(outputDir, "plugins", `${plugin.name}.mjs`)}"`,
+      ].join(" ")),
+    };
+  }
 }
@@ -1,12 +1,14 @@
 import { Stack, StackProps } from "aws-cdk-lib";
 import { Construct } from "constructs";
 import { FA2 } from "../constructs/fa2";
-import { Language, SlashCommands } from "../../parameter";
+import { HistoryCompressionMode, Language, ModelPricing, OrchestrationMode, SlashCommands, ToolPlugin, ToolUseMode } from "../../parameter";
 import { NagSuppressions } from "cdk-nag";
 import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
 
 interface FA2StackProps extends StackProps {
   language: Language;
+  timezone?: string;
+  detectUserTimezone?: boolean;
   modelId: string;
   slackAppTokenKey: string;
   slackSigningSecretKey: string;
@@ -22,6 +24,24 @@ interface FA2StackProps extends StackProps {
   knowledgeBaseId?: string;
   rerankModelId?: string;
   maxAgentCycles?: number;
+  toolUseMode?: ToolUseMode;
+  promptCaching?: boolean;
+  orchestrationMode?: OrchestrationMode;
+  analysisTimeoutMinutes?: number;
+  sessionRecording?: boolean;
+  tokenBudget?: number;
+  costBudgetUsd?: number;
+  modelPricing?: ModelPricing;
+  historyCompression?: HistoryCompressionMode;
+  historyTokenLimit?: number;
+  summaryModelId?: string;
+  toolPlugins?: ToolPlugin[];
+  toolTimeouts?: Record<string, number>;
+  maxObservationLength?: number;
+  toolFailureThreshold?: number;
+  toolResultCache?: boolean;
+  sharedToolResultCacheTtlSeconds?: number;
+  maxLookbackMinutes?: number;
 }
 
 export class FA2Stack extends Stack {
@@ -32,6 +52,8 @@ export class FA2Stack extends Stack {
     // To deploy FA2 backend with Slack bot backend.
     const fa2 = new FA2(this, "FA2Slack", {
       language: props.language,
+      timezone: props.timezone,
+      detectUserTimezone: props.detectUserTimezone,
       modelId: props.modelId,
       slackAppTokenKey: props.slackAppTokenKey,
       slackSigningSecretKey: props.slackSigningSecretKey,
@@ -45,6 +67,24 @@ export class FA2Stack extends Stack {
       slashCommands: props.slashCommands,
       detectorId: props.detectorId,
       maxAgentCycles: props.maxAgentCycles,
+      toolUseMode: props.toolUseMode,
+      promptCaching: props.promptCaching,
+      orchestrationMode: props.orchestrationMode,
+      analysisTimeoutMinutes: props.analysisTimeoutMinutes,
+      sessionRecording: props.sessionRecording,
+      tokenBudget: props.tokenBudget,
+      costBudgetUsd: props.costBudgetUsd,
+      modelPricing: props.modelPricing,
+      historyCompression: props.historyCompression,
+      historyTokenLimit: props.historyTokenLimit,
+      summaryModelId: props.summaryModelId,
+      toolPlugins: props.toolPlugins,
+      toolTimeouts: props.toolTimeouts,
+      maxObservationLength: props.maxObservationLength,
+      toolFailureThreshold: props.toolFailureThreshold,
+      toolResultCache: props.toolResultCache,
+      sharedToolResultCacheTtlSeconds: props.sharedToolResultCacheTtlSeconds,
+      maxLookbackMinutes: props.maxLookbackMinutes,
     });
     this.fa2BackendFunction = fa2.backendFunction;
     
@@ -122,6 +162,22 @@ export class FA2Stack extends Stack {
       ]);
     }
 
+    if (fa2.agentLoopStateMachine && fa2.analysisStateMachine) {
+      for (const stateMachine of [fa2.agentLoopStateMachine, fa2.analysisStateMachine]) {
+        NagSuppressions.addResourceSuppressions(
+          stateMachine,
+          [
+            {
+              id: "AwsSolutions-IAM5",
+              reason:
+                "Step Functions needs * resources to invoke versions of the function, to run nested executions and to put traces.",
+            },
+          ],
+          true,
+        );
+      }
+    }
+
     if (fa2.slackHandlerRole) {
       NagSuppressions.addResourceSuppressions(fa2.slackHandlerRole, [
         {
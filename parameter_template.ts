@@ -1,14 +1,36 @@
 import { Environment } from "aws-cdk-lib";
 
-export type Language = "ja" | "en";
+export type Language = "ja" | "en" | "ko" | "zh";
+export type ToolUseMode = "native" | "xml";
+export type OrchestrationMode = "lambda" | "stepfunctions";
+export type HistoryCompressionMode = "truncate" | "summarize";
 export type SlashCommands = {
   insight: boolean;
   findingsReport: boolean;
 };
+export type ModelPricing = {
+  inputPerMillionTokens: number; // USD per million input tokens
+  outputPerMillionTokens: number; // USD per million output tokens
+  cacheReadPerMillionTokens?: number; // Defaults to the input price
+  cacheWritePerMillionTokens?: number; // Defaults to the input price
+};
+
+export type ToolPluginPermission = {
+  actions: string[]; // e.g. ["dynamodb:Scan"]
+  resources: string[]; // ARNs of the resources
+};
+export type ToolPlugin = {
+  name: string; // Unique name of the plugin, used as the file name of its bundle
+  entry: string; // Path of the plugin module from the project root (e.g. "plugins/service-health.ts")
+  options?: Record<string, unknown>; // Passed to the plugin (e.g. the endpoint URL or the table name)
+  permissions?: ToolPluginPermission[]; // IAM permissions that the tools of the plugin need
+};
 
 export interface AppParameter {
   env?: Environment;
   language: Language;
+  timezone?: string; // IANA timezone name of the form input and the timestamps in the messages (e.g. "UTC", "America/New_York"). Defaults to "Asia/Tokyo"
+  detectUserTimezone?: boolean; // Use the timezone of the Slack user profile when it is set. Requires the users:read scope
   envName: string;
   modelId: string;
   slackAppTokenKey: string;
@@ -26,6 +48,24 @@ export interface AppParameter {
   embeddingModelId?: string;
   rerankModelId?: string;
   maxAgentCycles?: number; // Maximum number of cycles for ReAct agent
+  toolUseMode?: ToolUseMode; // "native" uses Bedrock tool use, "xml" parses <Action> tags for models without tool use support
+  promptCaching?: boolean; // Cache the system prompt of the ReAct agent. Set false for models without prompt caching support
+  orchestrationMode?: OrchestrationMode; // "lambda" re-invokes the agent function itself, "stepfunctions" drives the loop with a state machine
+  analysisTimeoutMinutes?: number; // Global timeout of an analysis in "stepfunctions" orchestration mode
+  sessionRecording?: boolean; // Record tool and model calls of each session to export them as a replayable bundle
+  tokenBudget?: number; // Maximum tokens of an analysis session. The final answer is generated forcibly when it is reached
+  costBudgetUsd?: number; // Maximum estimated cost of an analysis session in USD. Requires modelPricing
+  modelPricing?: ModelPricing; // Price of the model to show the estimated cost of each analysis
+  historyCompression?: HistoryCompressionMode; // "truncate" keeps only the last cycles, "summarize" replaces older cycles with summaries by the model
+  historyTokenLimit?: number; // Estimated tokens of the history sent without summarization in "summarize" mode
+  summaryModelId?: string; // Model to summarize the history in "summarize" mode. Defaults to modelId
+  toolPlugins?: ToolPlugin[]; // Team-specific tools bundled with the agent function and loaded at cold start
+  toolTimeouts?: Record<string, number>; // Timeout of each tool in seconds by tool name. "default" applies to the other tools
+  maxObservationLength?: number; // Maximum characters of a tool result sent to the model. Longer results are truncated
+  toolFailureThreshold?: number; // Consecutive failures after which a tool is disabled for the rest of the analysis
+  toolResultCache?: boolean; // Reuse the result of a tool call with the same parameters in later cycles of the analysis
+  sharedToolResultCacheTtlSeconds?: number; // Share tool results with other analyses of the same time range for this period
+  maxLookbackMinutes?: number; // How far before the start of the analysis the agent can query when it changes the time range of a tool call
 }
 
 // Parameters for Dev Account
@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HistoryItem } from "../lambda/lib/react-agent.js";
+import {
+  AnalysisReport,
+  collectCitedEvidence,
+  findCitingTexts,
+  findReportCitations,
+  findReportCitingTexts,
+  parseAnalysisReport,
+  renderAnalysisReport
+} from "../lambda/lib/analysis-report.js";
+
+const report: AnalysisReport = {
+  summary: "The API returned 5xx errors because the database connections timed out [E2].",
+  severity: "high",
+  impact: "Requests to the API failed for 20 minutes.",
+  rootCauses: [{
+    description: "The security group of the database was changed [E3]",
+    confidence: "high",
+    evidence: [{ evidenceId: "E2", description: "connect ETIMEDOUT 10.0.1.5:3306" }]
+  }],
+  timeline: [{ time: "02:10", description: "The security group was changed [E3]" }],
+  remediation: ["Restore the inbound rule of port 3306 [E3]", "Add an alarm on the 5xx errors"],
+  prevention: [],
+  missingData: []
+};
+
+// Long observation with the cited log line in the middle
+const logs = [
+  ...Array.from({ length: 20 }, (_, index) => `2025-01-15T02:0${index % 10}:00Z GET /health 200`),
+  "2025-01-15T02:12:00Z Error: connect ETIMEDOUT 10.0.1.5:3306",
+  ...Array.from({ length: 20 }, (_, index) => `2025-01-15T02:2${index % 10}:00Z GET /health 200`)
+].join("\n");
+
+const history: HistoryItem[] = [
+  { thinking: "Check the metrics", action: JSON.stringify({ tool: "metrics_tool", parameters: { metricNames: ["5XX"] } }), observation: "5XX: 120", timestamp: 0, cycle: 0, evidenceId: "E1" },
+  { thinking: "Check the logs", action: JSON.stringify({ tool: "logs_tool", parameters: { query: "Error" } }), observation: logs, timestamp: 0, cycle: 1, evidenceId: "E2" },
+  { thinking: "Check the changes", action: "not a JSON action", observation: "AuthorizeSecurityGroupIngress sg-0abc", timestamp: 0, cycle: 1, evidenceId: "E3" }
+];
+
+test("parseAnalysisReport reads the report in a code block or after a sentence", () => {
+  const json = JSON.stringify(report);
+
+  assert.deepEqual(parseAnalysisReport("```json\n" + json + "\n```").report, report);
+  assert.deepEqual(parseAnalysisReport(`Here is the report:\n${json}\nI hope this helps.`).report, report);
+});
+
+test("parseAnalysisReport returns the errors of an answer which is not a report", () => {
+  const notJson = parseAnalysisReport("The database is down.");
+  assert.equal(notJson.report, null);
+  assert.match(notJson.errors[0], /^Not a JSON object/);
+
+  const invalid = parseAnalysisReport(JSON.stringify({ ...report, severity: "critical", rootCauses: [] }));
+  assert.equal(invalid.report, null);
+  assert.deepEqual(invalid.errors, ["severity must be one of high, medium, low", "rootCauses must have at least one hypothesis"]);
+});
+
+test("parseAnalysisReport removes the citations of evidence IDs which are not in the history", () => {
+  const { report: parsed, warnings } = parseAnalysisReport(
+    JSON.stringify({ ...report, impact: "Requests failed [E9].", remediation: ["Restore the rule [E3] [E7]"] }),
+    ["E1", "E2", "E3"]
+  );
+
+  assert.equal(parsed?.impact, "Requests failed.");
+  assert.deepEqual(parsed?.remediation, ["Restore the rule [E3]"]);
+  assert.deepEqual(warnings, [
+    "impact cites E9, which is not in the analysis history",
+    "remediation[0] cites E7, which is not in the analysis history"
+  ]);
+});
+
+test("findReportCitations returns the cited evidence IDs in order of their first citation", () => {
+  assert.deepEqual(findReportCitations(report), ["E2", "E3"]);
+});
+
+test("findCitingTexts returns the sentences which cite each evidence ID", () => {
+  assert.deepEqual(findCitingTexts(["Errors increased [E1]. The database timed out [E2] [E1].\nNo changes were found."]), {
+    E1: ["Errors increased.", "The database timed out."],
+    E2: ["The database timed out."]
+  });
+  // The quotes of the evidence come before the claims
+  assert.deepEqual(findReportCitingTexts(report).E2, [
+    "connect ETIMEDOUT 10.0.1.5:3306",
+    "The API returned 5xx errors because the database connections timed out."
+  ]);
+});
+
+test("collectCitedEvidence resolves the citations to the observations with the cycles counted from 1", () => {
+  const citedEvidence = collectCitedEvidence(["E3", "E1", "E9"], history);
+
+  assert.deepEqual(citedEvidence, [
+    { evidenceId: "E3", tool: "unknown", parameters: {}, cycle: 2, excerpt: "AuthorizeSecurityGroupIngress sg-0abc" },
+    { evidenceId: "E1", tool: "metrics_tool", parameters: { metricNames: ["5XX"] }, cycle: 1, excerpt: "5XX: 120" }
+  ]);
+});
+
+test("collectCitedEvidence takes the excerpt around the quote of the citing text", () => {
+  const [evidence] = collectCitedEvidence(["E2"], history, findReportCitingTexts(report));
+
+  assert.ok(evidence.excerpt.startsWith("..."));
+  assert.ok(evidence.excerpt.endsWith("..."));
+  assert.ok(evidence.excerpt.includes("2025-01-15T02:12:00Z Error: connect ETIMEDOUT 10.0.1.5:3306"));
+  assert.equal(evidence.excerpt.length, 300 + "......".length);
+});
+
+test("collectCitedEvidence finds the terms of a claim which is not quoted as it is", () => {
+  const [evidence] = collectCitedEvidence(["E2"], history, findCitingTexts(["The connections timed out with ETIMEDOUT [E2]."]));
+  assert.ok(evidence.excerpt.includes("connect ETIMEDOUT"));
+
+  // The start of the observation when the claims are not in it
+  const [uncited] = collectCitedEvidence(["E2"], history, findCitingTexts(["The database was slow [E2]."]));
+  assert.ok(uncited.excerpt.startsWith("2025-01-15T02:00:00Z GET /health 200"));
+  assert.ok(uncited.excerpt.endsWith("..."));
+});
+
+test("renderAnalysisReport flags the claims without citations and adds the footnotes", () => {
+  const markdown = renderAnalysisReport(report, "en", history);
+
+  assert.ok(markdown.includes("Requests to the API failed for 20 minutes. ⚠️ No cited evidence"));
+  assert.ok(markdown.includes("- Add an alarm on the 5xx errors ⚠️ No cited evidence"));
+  assert.ok(markdown.includes("- Restore the inbound rule of port 3306 [E3]\n"));
+  assert.ok(!markdown.includes("timed out [E2]. ⚠️"));
+  assert.ok(markdown.includes("- **[E2]** `logs_tool` (cycle 2)"));
+  assert.ok(markdown.includes("- **[E3]** `unknown` (cycle 2)"));
+});
@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand, TransactWriteCommandInput, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { logger } from "../lambda/lib/logger.js";
+import { HistoryItem, SessionStatus, createInitialSessionState } from "../lambda/lib/react-agent.js";
+import { DynamoDBSessionStore, SessionConflictError } from "../lambda/lib/session-store/index.js";
+
+logger.setLogLevel("ERROR");
+
+type Command = GetCommand | TransactWriteCommand | UpdateCommand;
+
+/**
+ * DocumentClient which records the commands and answers them with the handler of the test
+ */
+const createStore = (handler: (command: Command) => unknown) => {
+  const commands: Command[] = [];
+  const docClient = {
+    send: async (command: Command) => {
+      commands.push(command);
+      return handler(command);
+    }
+  } as unknown as DynamoDBDocumentClient;
+  return { store: new DynamoDBSessionStore("sessions", docClient), commands };
+};
+
+const createHistoryItem = (action: string): HistoryItem => ({ thinking: "", action, observation: "", timestamp: 0 });
+
+const transactItems = (commands: Command[]) => {
+  const transaction = commands.find((command): command is TransactWriteCommand => command instanceof TransactWriteCommand);
+  assert.ok(transaction);
+  return (transaction.input as TransactWriteCommandInput).TransactItems!.map(item => item.Put!);
+};
+
+test("creates the session on the condition that no other invocation created it", async () => {
+  const { store, commands } = createStore(() => ({}));
+  const state = { ...createInitialSessionState("5xx errors"), history: [createHistoryItem("metrics_tool")] };
+
+  assert.equal(await store.saveSessionState("new", state), 1);
+
+  const [master, history] = transactItems(commands);
+  assert.equal(master.ConditionExpression, "attribute_not_exists(version)");
+  assert.equal(master.ExpressionAttributeValues, undefined);
+  assert.deepEqual(
+    { pk: master.Item!.pk, sk: master.Item!.sk, version: master.Item!.version, historyCount: master.Item!.historyCount },
+    { pk: "SESSION#new", sk: "DATA", version: 1, historyCount: 1 }
+  );
+  assert.equal(history.Item!.sk, "HISTORY#1");
+  assert.equal(history.ConditionExpression, "attribute_not_exists(sk)");
+});
+
+test("saves only the new history items on the condition of the version which was read", async () => {
+  const { store, commands } = createStore(command =>
+    command instanceof GetCommand ? { Item: { version: 2, historyCount: 1 } } : {}
+  );
+  const state = {
+    ...createInitialSessionState("5xx errors"),
+    history: ["metrics_tool", "logs_tool", "xray_tool"].map(createHistoryItem),
+    version: 2
+  };
+
+  assert.equal(await store.saveSessionState("existing", state), 3);
+
+  const [read] = commands;
+  assert.ok(read instanceof GetCommand);
+  assert.equal(read.input.ConsistentRead, true);
+  const [master, ...history] = transactItems(commands);
+  assert.equal(master.ConditionExpression, "version = :expectedVersion");
+  assert.deepEqual(master.ExpressionAttributeValues, { ":expectedVersion": 2 });
+  assert.equal(master.Item!.version, 3);
+  assert.equal(master.Item!.historyCount, 3);
+  assert.deepEqual(history.map(put => [put.Item!.sk, put.Item!.action]), [["HISTORY#2", "logs_tool"], ["HISTORY#3", "xray_tool"]]);
+});
+
+test("rejects the save without writing when the session has another version", async () => {
+  const { store, commands } = createStore(() => ({ Item: { version: 3, historyCount: 2 } }));
+
+  await assert.rejects(store.saveSessionState("outdated", { ...createInitialSessionState("5xx errors"), version: 2 }), SessionConflictError);
+
+  assert.ok(commands.every(command => command instanceof GetCommand));
+});
+
+test("skips the duplicate step when the transaction fails on a condition", async () => {
+  const { store } = createStore(command => {
+    if (command instanceof TransactWriteCommand) {
+      throw new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: [{ Code: "None" }, { Code: "ConditionalCheckFailed" }]
+      });
+    }
+    return { Item: { version: 1, historyCount: 0 } };
+  });
+  const state = { ...createInitialSessionState("5xx errors"), history: [createHistoryItem("metrics_tool")], version: 1 };
+
+  const error = await store.saveSessionState("duplicate", state).catch(error => error);
+
+  assert.ok(error instanceof SessionConflictError);
+  assert.equal(error.sessionId, "duplicate");
+  assert.equal(error.expectedVersion, 1);
+});
+
+test("rethrows the cancelled transaction which did not fail on a condition", async () => {
+  const { store } = createStore(command => {
+    if (command instanceof TransactWriteCommand) {
+      throw new TransactionCanceledException({
+        message: "Transaction cancelled",
+        $metadata: {},
+        CancellationReasons: [{ Code: "ThrottlingError" }]
+      });
+    }
+    return {};
+  });
+
+  await assert.rejects(store.saveSessionState("throttled", createInitialSessionState("5xx errors")), TransactionCanceledException);
+});
+
+test("increments the version with the status so that the running step fails to save", async () => {
+  const { store, commands } = createStore(() => ({ Attributes: { status: SessionStatus.CANCELLED, version: 4 } }));
+
+  assert.equal(await store.updateSessionStatus("cancel", SessionStatus.CANCELLED), 4);
+
+  const [update] = commands;
+  assert.ok(update instanceof UpdateCommand);
+  assert.deepEqual(update.input.Key, { pk: "SESSION#cancel", sk: "DATA" });
+  assert.equal(update.input.UpdateExpression, "SET #status = :status, version = if_not_exists(version, :zero) + :one");
+  assert.equal(update.input.ConditionExpression, "attribute_exists(pk)");
+  assert.deepEqual(update.input.ExpressionAttributeValues, { ":status": SessionStatus.CANCELLED, ":zero": 0, ":one": 1 });
+});
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { logger } from "../lambda/lib/logger.js";
+import { EvaluationReport, compareWithBaseline, loadScenarios, runEvaluation, scoreAnswer } from "../lambda/lib/local/evaluation.js";
+
+logger.setLogLevel("ERROR");
+
+test("scoreAnswer matches the keywords case-insensitively with alternatives", () => {
+  const score = scoreAnswer(
+    "The connection to the Aurora cluster timed out (connect ETIMEDOUT 10.0.1.5:3306)",
+    { rootCause: ["database|aurora", "Connect"], evidence: ["etimedout"] }
+  );
+
+  assert.equal(score.passed, true);
+  assert.deepEqual(score.rootCause.map(match => match.found), [true, true]);
+  assert.deepEqual(score.evidence, [{ keyword: "etimedout", found: true }]);
+});
+
+test("scoreAnswer fails when a keyword of the evidence is missing", () => {
+  const score = scoreAnswer("Database connections failed", { rootCause: ["database"], evidence: ["HTTPCode_Target_5XX_Count"] });
+
+  assert.equal(score.passed, false);
+  assert.deepEqual(score.evidence, [{ keyword: "HTTPCode_Target_5XX_Count", found: false }]);
+});
+
+test("the stub model finds the expected root cause of every fixture", async () => {
+  const scenarios = loadScenarios("fixtures");
+  assert.ok(scenarios.length > 0);
+
+  const report = await runEvaluation(scenarios, "stub");
+
+  assert.deepEqual(
+    report.results.map(result => ({ name: result.name, passed: result.passed, error: result.error })),
+    scenarios.map(scenario => ({ name: scenario.name, passed: true, error: undefined }))
+  );
+});
+
+test("compareWithBaseline reports the keywords found and lost since the baseline", () => {
+  const report = (answer: string): EvaluationReport => ({
+    model: "stub",
+    createdAt: "2025-01-15T00:00:00.000Z",
+    results: [{
+      name: "scenario",
+      ...scoreAnswer(answer, { rootCause: ["database", "timeout"] }),
+      cycles: 1,
+      finalAnswer: answer
+    }]
+  });
+
+  const [comparison] = compareWithBaseline(report("Database connection timeout"), report("Database is down"));
+
+  assert.equal(comparison.passedBefore, false);
+  assert.equal(comparison.passedAfter, true);
+  assert.deepEqual(comparison.foundKeywords, ["timeout"]);
+  assert.deepEqual(comparison.lostKeywords, []);
+  assert.deepEqual(comparison.answerDifference, { line: 1, recorded: "Database is down", replayed: "Database connection timeout" });
+});
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { logger } from "../lambda/lib/logger.js";
+import { ConfigurationService } from "../lambda/lib/configuration-service.js";
+import { AWSServiceFactory } from "../lambda/lib/aws/aws-service-factory.js";
+import { Fixture, FixtureReplayer, createFixtureServices } from "../lambda/lib/aws/fixtures/fixture-services.js";
+import { SessionRecorder, createRecordingServices } from "../lambda/lib/aws/fixtures/recording-services.js";
+import { AnalysisInput, SessionBundle, createRecordingMetadata, createSessionBundle } from "../lambda/lib/session-recording.js";
+import { runAgent } from "../lambda/lib/local/agent-runner.js";
+import { replaySessionBundle } from "../lambda/lib/local/session-replay.js";
+
+logger.setLogLevel("ERROR");
+
+/**
+ * Record a run of the fixture as "npm run local -- --fixture <path> --record <path>" does,
+ * and return the bundle as it is read from the saved file
+ */
+const recordBundle = async (fixturePath: string): Promise<SessionBundle> => {
+  const fixture = JSON.parse(readFileSync(fixturePath, "utf-8")) as Fixture & { input: AnalysisInput };
+  const configService = ConfigurationService.getInstance();
+  configService.setConfig(fixture.config ?? {});
+
+  const recorder = new SessionRecorder();
+  AWSServiceFactory.setServices(createRecordingServices(recorder, createFixtureServices(new FixtureReplayer(fixture.responses))));
+  const metadata = createRecordingMetadata(fixture.input, configService);
+  const { sessionId, state } = await runAgent(fixture.input, { configService });
+
+  const bundle = createSessionBundle(sessionId, metadata, recorder.takeCalls(), state);
+  return JSON.parse(JSON.stringify(bundle)) as SessionBundle;
+};
+
+test("replaying a recorded session reproduces the actions, observations and final answer", async () => {
+  const bundle = await recordBundle("fixtures/alb-5xx-errors.json");
+  assert.ok(bundle.history.length > 0);
+  assert.ok(bundle.finalAnswer);
+
+  const result = await replaySessionBundle(bundle);
+
+  assert.equal(result.error, undefined);
+  assert.deepEqual(result.differences, []);
+  assert.deepEqual(result.modelRequestChanges, []);
+  assert.deepEqual(result.unusedCalls, {});
+  assert.equal(result.finalAnswer, bundle.finalAnswer);
+});
+
+test("replay reports the observation changed by a different tool response", async () => {
+  const bundle = await recordBundle("fixtures/alb-5xx-errors.json");
+  const logsCall = bundle.calls.find(call => call.service === "cloudWatchLogs" && call.method === "queryLogs");
+  assert.ok(logsCall);
+  logsCall.result = [];
+
+  const result = await replaySessionBundle(bundle);
+
+  assert.ok(result.differences.some(difference => difference.kind === "observation"));
+});
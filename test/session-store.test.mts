@@ -0,0 +1,120 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { logger } from "../lambda/lib/logger.js";
+import { ReactionState, SessionStatus, createInitialSessionState } from "../lambda/lib/react-agent.js";
+import { RecordedCall } from "../lambda/lib/aws/fixtures/recording-services.js";
+import { SessionRecordingMetadata } from "../lambda/lib/session-recording.js";
+import { I18nProvider } from "../lambda/lib/messaging/providers/i18n-provider.js";
+import { setI18nProvider } from "../lambda/lib/messaging/providers/i18n-factory.js";
+import { FileSessionStore, InMemorySessionStore, SessionConflictError, SessionStore } from "../lambda/lib/session-store/index.js";
+
+logger.setLogLevel("ERROR");
+
+const directory = mkdtempSync(join(tmpdir(), "fa2-sessions-"));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+const metadata: SessionRecordingMetadata = {
+  input: { errorDescription: "5xx errors", startDate: "2025-01-15T02:00:00.000Z", endDate: "2025-01-15T03:00:00.000Z" },
+  config: { language: "en" },
+  recordedAt: "2025-01-15T03:00:00.000Z"
+};
+
+const createCall = (method: string): RecordedCall => ({ service: "cloudWatch", method, args: [], result: [], timestamp: 0 });
+
+// Every backend has to behave the same, since the agent and the Slack handler only know the interface
+const backends: [string, () => SessionStore][] = [
+  ["InMemorySessionStore", () => new InMemorySessionStore()],
+  ["FileSessionStore", () => new FileSessionStore(directory)]
+];
+
+for (const [name, createStore] of backends) {
+  describe(name, () => {
+    test("returns null for a session which was not saved", async () => {
+      assert.equal(await createStore().getSessionState("unknown"), null);
+    });
+
+    test("increments the version on each save and rejects a save of an outdated state", async () => {
+      const store = createStore();
+      const state = createInitialSessionState("5xx errors");
+
+      assert.equal(await store.saveSessionState("versions", state), 1);
+      const saved = await store.getSessionState("versions");
+      assert.equal(saved?.context, "5xx errors");
+      assert.equal(saved?.version, 1);
+      assert.equal(await store.saveSessionState("versions", { ...saved!, cycleCount: 1 }), 2);
+
+      // Saved by another invocation of the same step
+      await assert.rejects(store.saveSessionState("versions", saved!), SessionConflictError);
+      assert.equal((await store.getSessionState("versions"))?.cycleCount, 1);
+    });
+
+    test("makes the step being executed fail to save when the status is updated", async () => {
+      const store = createStore();
+      await store.saveSessionState("cancel", createInitialSessionState("5xx errors"));
+      const running = (await store.getSessionState("cancel"))!;
+
+      assert.equal(await store.updateSessionStatus("cancel", SessionStatus.CANCELLED), 2);
+      await assert.rejects(store.saveSessionState("cancel", running), SessionConflictError);
+      assert.equal((await store.getSessionState("cancel"))?.status, SessionStatus.CANCELLED);
+      await assert.rejects(store.updateSessionStatus("unknown", SessionStatus.CANCELLED));
+    });
+
+    test("completes the session with the final answer", async () => {
+      const store = createStore();
+      await store.saveSessionState("complete", { ...createInitialSessionState("5xx errors"), finalAnswer: "Root cause" });
+
+      await store.completeSession("complete");
+
+      const state = await store.getSessionState("complete");
+      assert.equal(state?.state, ReactionState.COMPLETED);
+      assert.equal(state?.finalAnswer, "Root cause");
+    });
+
+    test("completes the session without the final answer with the message in the language of the analysis", async () => {
+      const store = createStore();
+      setI18nProvider(new I18nProvider("en"));
+      await store.saveSessionState("no-answer", createInitialSessionState("5xx errors"));
+
+      await store.completeSession("no-answer");
+
+      assert.equal((await store.getSessionState("no-answer"))?.finalAnswer, "The analysis has been completed.");
+    });
+
+    test("appends the recorded calls to the recording started with the metadata", async () => {
+      const store = createStore();
+      await assert.rejects(store.saveSessionRecording("recording", [createCall("listMetrics")]));
+
+      await store.saveSessionRecording("recording", [createCall("listMetrics")], metadata);
+      await store.saveSessionRecording("recording", [createCall("queryMetrics")]);
+
+      const recording = await store.getSessionRecording("recording");
+      assert.deepEqual(recording?.metadata, metadata);
+      assert.deepEqual(recording?.calls.map(call => call.method), ["listMetrics", "queryMetrics"]);
+    });
+
+    test("deletes the session with its recording", async () => {
+      const store = createStore();
+      await store.saveSessionState("delete", createInitialSessionState("5xx errors"));
+      await store.saveSessionRecording("delete", [createCall("listMetrics")], metadata);
+
+      await store.deleteSession("delete");
+
+      assert.equal(await store.getSessionState("delete"), null);
+      assert.equal(await store.getSessionRecording("delete"), null);
+    });
+
+    test("replaces the session of the thread with the latest analysis", async () => {
+      const store = createStore();
+      const timeRange = { startDate: metadata.input.startDate, endDate: metadata.input.endDate };
+      assert.equal(await store.getThreadSession("C01", "1736906400.000100"), null);
+
+      await store.saveThreadSession("C01", "1736906400.000100", { sessionId: "first", ...timeRange });
+      await store.saveThreadSession("C01", "1736906400.000100", { sessionId: "rerun", ...timeRange });
+
+      assert.equal((await store.getThreadSession("C01", "1736906400.000100"))?.sessionId, "rerun");
+    });
+  });
+}
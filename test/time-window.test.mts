@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { resolveTimeWindow } from "../lambda/lib/time-window.js";
+import { ToolParameterValidationError } from "../lambda/lib/tool-schema.js";
+
+const analysis = { startDate: "2025-01-15T02:00:00.000Z", endDate: "2025-01-15T03:00:00.000Z" };
+
+/**
+ * Get the errors of the time range parameters rejected by resolveTimeWindow
+ */
+const rejectedErrors = (params: Parameters<typeof resolveTimeWindow>[1], maxLookbackMinutes = 60) => {
+  try {
+    resolveTimeWindow("logs_tool", params, analysis, maxLookbackMinutes);
+  } catch (error) {
+    assert.ok(error instanceof ToolParameterValidationError);
+    assert.equal(error.toolName, "logs_tool");
+    return error.errors.map(({ path, message }) => ({ path, message }));
+  }
+  assert.fail("The time range was not rejected");
+};
+
+test("returns the time range of the analysis without the parameters", () => {
+  assert.equal(resolveTimeWindow("logs_tool", {}, analysis, 60), analysis);
+  assert.equal(resolveTimeWindow("logs_tool", { startOffsetMinutes: 0, endOffsetMinutes: 0 }, analysis, 60), analysis);
+});
+
+test("adds the offsets to the time range of the analysis", () => {
+  assert.deepEqual(resolveTimeWindow("logs_tool", { startOffsetMinutes: -30, endOffsetMinutes: 15 }, analysis, 60), {
+    startDate: "2025-01-15T01:30:00.000Z",
+    endDate: "2025-01-15T03:15:00.000Z"
+  });
+});
+
+test("resolves the absolute dates in the timezone of their offset", () => {
+  assert.deepEqual(
+    resolveTimeWindow("logs_tool", { startDate: "2025-01-15T10:45:00+09:00", endDate: "2025-01-15T11:30:00+0900" }, analysis, 60),
+    { startDate: "2025-01-15T01:45:00.000Z", endDate: "2025-01-15T02:30:00.000Z" }
+  );
+  // The offsets are added to the absolute dates as well
+  assert.deepEqual(resolveTimeWindow("logs_tool", { endDate: "2025-01-15T02:30:00Z", endOffsetMinutes: 10 }, analysis, 60), {
+    startDate: "2025-01-15T02:00:00.000Z",
+    endDate: "2025-01-15T02:40:00.000Z"
+  });
+});
+
+test("accepts the start at the limit of the lookback and rejects the earlier one", () => {
+  assert.deepEqual(resolveTimeWindow("logs_tool", { startOffsetMinutes: -60 }, analysis, 60), {
+    startDate: "2025-01-15T01:00:00.000Z",
+    endDate: analysis.endDate
+  });
+
+  assert.deepEqual(rejectedErrors({ startOffsetMinutes: -61 }), [{
+    path: "startDate",
+    message: "must not be earlier than 2025-01-15T01:00:00.000Z (60 minutes before the start of the analysis)"
+  }]);
+  assert.deepEqual(rejectedErrors({ startDate: "2025-01-14T00:00:00Z" }, 24 * 60), [{
+    path: "startDate",
+    message: "must not be earlier than 2025-01-14T02:00:00.000Z (1440 minutes before the start of the analysis)"
+  }]);
+});
+
+test("rejects the reversed and empty time ranges", () => {
+  assert.deepEqual(rejectedErrors({ startDate: "2025-01-15T02:50:00Z", endDate: "2025-01-15T02:10:00Z" }), [
+    { path: "startDate", message: "must be before the end date" }
+  ]);
+  assert.deepEqual(rejectedErrors({ startOffsetMinutes: 60 }), [{ path: "startDate", message: "must be before the end date" }]);
+});
+
+test("rejects the dates which are invalid or without the offset", () => {
+  assert.deepEqual(rejectedErrors({ startDate: "2025-01-15T02:10:00", endDate: "yesterday" }), [
+    { path: "startDate", message: "must be an ISO 8601 date and time with the UTC offset" },
+    { path: "endDate", message: "must be an ISO 8601 date and time with the UTC offset" }
+  ]);
+  assert.deepEqual(rejectedErrors({ endDate: "2025-13-45T00:00:00Z" }), [
+    { path: "endDate", message: "must be an ISO 8601 date and time with the UTC offset" }
+  ]);
+});
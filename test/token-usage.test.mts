@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { logger } from "../lambda/lib/logger.js";
+import { ConfigurationService } from "../lambda/lib/configuration-service.js";
+import { AWSServiceFactory } from "../lambda/lib/aws/aws-service-factory.js";
+import { Fixture, FixtureReplayer, createFixtureServices } from "../lambda/lib/aws/fixtures/fixture-services.js";
+import { AnalysisInput } from "../lambda/lib/session-recording.js";
+import { runAgent } from "../lambda/lib/local/agent-runner.js";
+import { I18nProvider } from "../lambda/lib/messaging/providers/i18n-provider.js";
+import { ReactionState, SessionState } from "../lambda/lib/react-agent.js";
+import { TokenUsage, addTokenUsage, describeTokenUsage, estimateCost, isBudgetExceeded } from "../lambda/lib/token-usage.js";
+
+logger.setLogLevel("ERROR");
+
+const usage = (inputTokens: number, outputTokens: number, cacheReadInputTokens = 0): TokenUsage =>
+  ({ inputTokens, outputTokens, cacheReadInputTokens, cacheWriteInputTokens: 0, modelCalls: 1 });
+
+/**
+ * Run the fixture with the usage added to the replies of the model, keeping the usage of the session after each step
+ */
+const runFixture = async (config: Record<string, unknown>) => {
+  const fixture = JSON.parse(readFileSync("fixtures/alb-5xx-errors.json", "utf-8")) as Fixture & { input: AnalysisInput };
+  const bedrock = fixture.responses.bedrock as Record<string, { usage?: TokenUsage }[]>;
+  bedrock.converseWithTools.forEach((reply, index) => reply.usage = usage(1000 * (index + 1), 100, 500));
+  bedrock.converseWithUsage = (bedrock.converse as unknown as string[]).map(text => ({ text, usage: usage(4000, 800) }));
+  delete bedrock.converse;
+
+  const configService = ConfigurationService.getInstance();
+  configService.setConfig({ ...fixture.config, tokenBudget: null, costBudget: null, modelPricing: null, ...config });
+  AWSServiceFactory.setServices(createFixtureServices(new FixtureReplayer(fixture.responses)));
+
+  const usages: (TokenUsage | undefined)[] = [];
+  const result = await runAgent(fixture.input, { onStep: (state: SessionState) => usages.push(state.tokenUsage) });
+  return { result, usages };
+};
+
+test("addTokenUsage and estimateCost count the cached tokens at their own price", () => {
+  const total = addTokenUsage(addTokenUsage(undefined, usage(1000, 200, 3000)), usage(500, 100));
+
+  assert.deepEqual(total, { inputTokens: 1500, outputTokens: 300, cacheReadInputTokens: 3000, cacheWriteInputTokens: 0, modelCalls: 2 });
+  assert.equal(estimateCost(total, { inputPerMillionTokens: 3, outputPerMillionTokens: 15, cacheReadPerMillionTokens: 0.3 }).toFixed(6), "0.009900");
+  // Cached tokens are charged at the input price without their price
+  assert.equal(estimateCost(total, { inputPerMillionTokens: 3, outputPerMillionTokens: 15 }).toFixed(6), "0.018000");
+});
+
+test("isBudgetExceeded checks the tokens, and the cost only with the pricing", () => {
+  const total = usage(9000, 1000);
+
+  assert.equal(isBudgetExceeded(total, undefined), false);
+  assert.equal(isBudgetExceeded(total, { maxTokens: 10001 }), false);
+  assert.equal(isBudgetExceeded(total, { maxTokens: 10000 }), true);
+  assert.equal(isBudgetExceeded(total, { maxCostUsd: 0.005 }), false);
+  assert.equal(isBudgetExceeded(total, { maxCostUsd: 0.005, pricing: { inputPerMillionTokens: 1, outputPerMillionTokens: 1 } }), true);
+  assert.equal(isBudgetExceeded(total, { maxCostUsd: 0.02, pricing: { inputPerMillionTokens: 1, outputPerMillionTokens: 1 } }), false);
+});
+
+test("describeTokenUsage adds the cost estimated with the pricing of the configuration", () => {
+  const configService = ConfigurationService.getInstance();
+  const i18n = new I18nProvider("en");
+  const total = addTokenUsage(usage(12000, 2345, 1000), usage(0, 0));
+
+  configService.setConfig({ modelPricing: null });
+  assert.equal(describeTokenUsage(total, i18n, configService.getModelPricing()), "Token usage: 15,345 tokens (input 13,000 / output 2,345) in 2 model calls");
+
+  configService.setConfig({ modelPricing: { inputPerMillionTokens: 3, outputPerMillionTokens: 15, cacheReadPerMillionTokens: 0.3 } });
+  assert.equal(
+    describeTokenUsage(total, i18n, configService.getModelPricing()),
+    "Token usage: 15,345 tokens (input 13,000 / output 2,345) in 2 model calls\nEstimated cost: 0.0715 USD"
+  );
+});
+
+test("the usage of the model calls is added up across the steps of the session", async () => {
+  const { result, usages } = await runFixture({});
+
+  assert.equal(result.state.forcedCompletion, false);
+  // Thinking, acting, observing, thinking and the final answer, each restored from the session store
+  assert.deepEqual(usages.map(total => total?.modelCalls ?? 0), [1, 1, 1, 2, 3]);
+  assert.deepEqual(result.state.tokenUsage, {
+    inputTokens: 1000 + 2000 + 4000,
+    outputTokens: 100 + 100 + 800,
+    cacheReadInputTokens: 500 + 500,
+    cacheWriteInputTokens: 0,
+    modelCalls: 3
+  });
+});
+
+test("the final answer is generated forcibly when the token budget is exceeded", async () => {
+  const { result, usages } = await runFixture({ tokenBudget: 1500 });
+
+  assert.equal(result.state.state, ReactionState.COMPLETED);
+  assert.equal(result.state.forcedCompletion, true);
+  assert.equal(result.state.cycleCount, 0);
+  // The tools requested by the first reply are not executed
+  assert.deepEqual(result.state.history.map(item => JSON.parse(item.action).tool), ["final_answer"]);
+  assert.equal(result.state.history[0].observation, new I18nProvider("en").translate("agentBudgetReached"));
+  assert.ok(result.finalAnswer);
+  assert.deepEqual(usages.map(total => total?.modelCalls), [1, 2]);
+});
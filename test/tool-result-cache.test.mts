@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { logger } from "../lambda/lib/logger.js";
+import { ToolResultStatus } from "../lambda/lib/tools-registry.js";
+import { CachedToolResult, SharedToolResultStore, ToolResultCache, ToolResultScope } from "../lambda/lib/tool-result-cache.js";
+
+logger.setLogLevel("ERROR");
+
+// Shared store kept in memory, in place of the session table
+const createSharedStore = (): SharedToolResultStore => {
+  const results = new Map<string, CachedToolResult>();
+  return {
+    getToolResult: async key => results.get(key) ?? null,
+    saveToolResult: async (key, result) => { results.set(key, result); }
+  };
+};
+
+const scope: ToolResultScope = {
+  startDate: "2025-01-15T02:00:00.000Z",
+  endDate: "2025-01-15T03:00:00.000Z",
+  timezone: "Asia/Tokyo",
+  language: "ja"
+};
+const params = { metricNames: ["HTTPCode_Target_5XX_Count"] };
+const result = { status: ToolResultStatus.DATA, summary: "2025-01-15 11:00 (JST) 42", itemCount: 1 };
+
+test("sessions of the same scope share the cached result", async () => {
+  const store = createSharedStore();
+  await new ToolResultCache(scope, { store, ttlSeconds: 600 }).put("metrics_tool", params, result);
+
+  const cached = await new ToolResultCache({ ...scope }, { store, ttlSeconds: 600 }).get("metrics_tool", { ...params });
+
+  assert.equal(cached?.summary, result.summary);
+});
+
+test("sessions with a different timezone or language do not share the cached result", async () => {
+  const store = createSharedStore();
+  await new ToolResultCache(scope, { store, ttlSeconds: 600 }).put("metrics_tool", params, result);
+
+  const otherTimezone = new ToolResultCache({ ...scope, timezone: "America/New_York" }, { store, ttlSeconds: 600 });
+  const otherLanguage = new ToolResultCache({ ...scope, language: "en" }, { store, ttlSeconds: 600 });
+
+  assert.equal(await otherTimezone.get("metrics_tool", params), null);
+  assert.equal(await otherLanguage.get("metrics_tool", params), null);
+});
+
+test("results with the error status are not cached", async () => {
+  const cache = new ToolResultCache(scope);
+  await cache.put("metrics_tool", params, { status: ToolResultStatus.ERROR, summary: "AccessDenied" });
+
+  assert.equal(await cache.get("metrics_tool", params), null);
+});
+
+test("the session state keeps the newest results within the size", async () => {
+  const cache = new ToolResultCache(scope);
+  await cache.put("metrics_tool", { metricNames: ["Old"] }, { ...result, summary: "old" });
+  await cache.put("metrics_tool", { metricNames: ["New"] }, { ...result, summary: "new" });
+  const [newest] = Object.entries(cache.getState(Number.MAX_SAFE_INTEGER)).slice(-1);
+  const newestBytes = Buffer.byteLength(JSON.stringify({ [newest[0]]: newest[1] }));
+
+  const state = cache.getState(newestBytes);
+
+  assert.deepEqual(Object.values(state).map(cached => cached.summary), ["new"]);
+});
@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ToolParameterSchema, ToolParameterValidationError, validateToolParameters } from "../lambda/lib/tool-schema.js";
+
+const schema: ToolParameterSchema = {
+  type: "object",
+  properties: {
+    metricNames: { type: "array", items: { type: "string" } },
+    period: { type: "integer", minimum: 1, maximum: 3600 },
+    stat: { type: "string", enum: ["Average", "Sum"] },
+    limit: { type: "integer" },
+    query: { type: "string" }
+  },
+  required: ["query"]
+};
+
+test("converts the values which models often pass in a different type", () => {
+  const { value, errors } = validateToolParameters(schema, {
+    metricNames: "CPUUtilization",
+    period: "300",
+    limit: " 10 ",
+    query: 42
+  });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(value, { metricNames: ["CPUUtilization"], period: 300, limit: 10, query: "42" });
+});
+
+test("parses a JSON array passed as a string", () => {
+  const { value, errors } = validateToolParameters(schema, { metricNames: '["Latency", "ErrorRate"]', query: "q" });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(value.metricNames, ["Latency", "ErrorRate"]);
+});
+
+test("reports the values out of the enum and the range with their paths", () => {
+  const params = { period: 0, stat: "Median", metricNames: ["Latency", { name: "ErrorRate" }], query: "q" };
+  const { value, errors } = validateToolParameters(schema, params);
+
+  assert.deepEqual(errors, [
+    { path: "metricNames[1]", message: "must be a string", received: { name: "ErrorRate" } },
+    { path: "period", message: "must be greater than or equal to 1", received: 0 },
+    { path: "stat", message: "must be one of Average, Sum", received: "Median" }
+  ]);
+  // The parameters are returned as they are when they are invalid
+  assert.equal(value, params);
+});
+
+test("reports the maximum and the values which cannot be converted", () => {
+  const { errors } = validateToolParameters(schema, { period: "3601", limit: "ten", query: "q" });
+
+  assert.deepEqual(errors.map(error => `${error.path} ${error.message}`), [
+    "period must be less than or equal to 3600",
+    "limit must be an integer"
+  ]);
+});
+
+test("reports the missing required parameters", () => {
+  const { errors } = validateToolParameters(schema, { query: null });
+
+  assert.deepEqual(errors, [{ path: "query", message: "is required" }]);
+});
+
+test("ToolParameterValidationError describes every error for the model", () => {
+  const { errors } = validateToolParameters(schema, { period: 1.5, stat: "Median" });
+  const error = new ToolParameterValidationError("metrics_tool", errors);
+
+  assert.equal(error.name, "ToolParameterValidationError");
+  assert.equal(
+    error.message,
+    "Invalid parameters for tool metrics_tool: query is required, period must be an integer, stat must be one of Average, Sum"
+  );
+  assert.deepEqual(error.errors, errors);
+});
@@ -0,0 +1,158 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { logger } from "../lambda/lib/logger.js";
+import { I18nProvider } from "../lambda/lib/messaging/providers/i18n-provider.js";
+import { truncateObservation } from "../lambda/lib/observation-truncation.js";
+import { Tool, ToolDisabledError, ToolExecutionContext, ToolRegistry, ToolResult, ToolResultStatus } from "../lambda/lib/tools-registry.js";
+import { ToolParameterSchema, ToolParameterValidationError } from "../lambda/lib/tool-schema.js";
+
+logger.setLogLevel("ERROR");
+
+/**
+ * Tool whose executions finish when the test resolves or rejects them
+ */
+class FakeTool implements Tool {
+  name = "fake_tool";
+  description = "Fake tool";
+  parameters: ToolParameterSchema = { type: "object", properties: { query: { type: "string" } } };
+  contexts: ToolExecutionContext[] = [];
+  private pending: { resolve: (result: ToolResult) => void; reject: (error: unknown) => void }[] = [];
+  private onExecute?: () => void;
+
+  execute(_params: Record<string, unknown>, context: ToolExecutionContext): Promise<ToolResult> {
+    this.contexts.push(context);
+    const execution = new Promise<ToolResult>((resolve, reject) => this.pending.push({ resolve, reject }));
+    this.onExecute?.();
+    return execution;
+  }
+
+  async resolve(result: ToolResult): Promise<void> {
+    (await this.nextExecution()).resolve(result);
+  }
+
+  async reject(error: unknown): Promise<void> {
+    (await this.nextExecution()).reject(error);
+  }
+
+  // The registry validates the parameters and looks up the cache before it executes the tool
+  private async nextExecution() {
+    if (this.pending.length === 0) {
+      await new Promise<void>(resolve => this.onExecute = resolve);
+    }
+    return this.pending.shift()!;
+  }
+}
+
+const createRegistry = (failureThreshold = 3) => {
+  const tool = new FakeTool();
+  const registry = new ToolRegistry({ failureThreshold, maxObservationLength: 200 }, new I18nProvider("en"));
+  registry.registerTool(tool);
+  return { tool, registry };
+};
+
+const fail = async (registry: ToolRegistry, tool: FakeTool, error: unknown = new Error("AccessDenied")) => {
+  const execution = registry.executeTool(tool.name, { query: "q" });
+  await tool.reject(error);
+  await assert.rejects(execution);
+};
+
+test("aborts the execution of the tool on the timeout", async () => {
+  const { tool, registry } = createRegistry();
+
+  await assert.rejects(registry.executeTool(tool.name, { query: "q" }, { timeoutMs: 10 }), /timed out after 10ms/);
+
+  assert.equal(tool.contexts[0].abortSignal.aborted, true);
+  assert.deepEqual(registry.getCircuitState(), { failures: { fake_tool: 1 }, disabled: [] });
+  // The execution rejected after the timeout is only logged
+  await tool.reject(new Error("aborted"));
+});
+
+test("disables the tool after the consecutive failures and stops offering it", async () => {
+  const { tool, registry } = createRegistry(2);
+
+  await fail(registry, tool);
+  assert.equal(registry.isToolDisabled(tool.name), false);
+  const execution = registry.executeTool(tool.name, { query: "q" });
+  await tool.resolve({ status: ToolResultStatus.ERROR, summary: "Log group not configured" });
+  await execution;
+
+  assert.equal(registry.isToolDisabled(tool.name), true);
+  await assert.rejects(registry.executeTool(tool.name, { query: "q" }), ToolDisabledError);
+  assert.deepEqual(registry.getToolDescriptions(), []);
+  assert.deepEqual(registry.getToolConfiguration().tools, []);
+});
+
+test("resets the failures when the tool succeeds", async () => {
+  const { tool, registry } = createRegistry(2);
+
+  await fail(registry, tool);
+  const execution = registry.executeTool(tool.name, { query: "q" });
+  await tool.resolve({ status: ToolResultStatus.NO_DATA, summary: "No logs found" });
+  await execution;
+  await fail(registry, tool);
+
+  assert.equal(registry.isToolDisabled(tool.name), false);
+});
+
+test("does not count the invalid parameters as failures", async () => {
+  const { tool, registry } = createRegistry(1);
+
+  await assert.rejects(registry.executeTool(tool.name, { query: { text: "q" } }), ToolParameterValidationError);
+  await fail(registry, tool, new ToolParameterValidationError(tool.name, [{ path: "startDate", message: "must be before the end date" }]));
+
+  assert.equal(tool.contexts.length, 1);
+  assert.equal(registry.isToolDisabled(tool.name), false);
+  assert.deepEqual(registry.getCircuitState().failures, {});
+});
+
+test("keeps the tool disabled in the next step with the circuit state of the session", async () => {
+  const { tool, registry } = createRegistry(1);
+  await fail(registry, tool);
+  const state = JSON.parse(JSON.stringify(registry.getCircuitState()));
+
+  const next = createRegistry(1);
+  next.registry.restoreCircuitState(state);
+
+  assert.equal(next.registry.isToolDisabled(tool.name), true);
+  await assert.rejects(next.registry.executeTool(tool.name, { query: "q" }), ToolDisabledError);
+  assert.equal(next.tool.contexts.length, 0);
+
+  next.registry.restoreCircuitState(undefined);
+  assert.equal(next.registry.isToolDisabled(tool.name), false);
+});
+
+test("truncates the observation longer than the limit with the number of omitted lines", async () => {
+  const { tool, registry } = createRegistry();
+  const rows = Array.from({ length: 50 }, (_, index) => `| ${index} | error |`);
+  const summary = ["## Logs", "| No | Message |", "| --- | --- |", ...rows].join("\n");
+
+  const execution = registry.executeTool(tool.name, { query: "q" });
+  await tool.resolve({ status: ToolResultStatus.DATA, summary, itemCount: 50 });
+  const result = await execution;
+
+  assert.ok(result.summary.length <= 200);
+  assert.equal(result.itemCount, 50);
+  const lines = result.summary.split("\n");
+  assert.deepEqual(lines.slice(0, 3), ["## Logs", "| No | Message |", "| --- | --- |"]);
+  assert.equal(lines.at(-1), "| 49 | error |");
+  const markers = lines.filter(line => line.startsWith("... ("));
+  assert.equal(markers.length, 1);
+  const keptRows = lines.filter(line => /^\| \d+ \|/.test(line)).length;
+  assert.equal(markers[0], `... (${50 - keptRows} lines omitted) ...`);
+});
+
+test("truncateObservation keeps the summary lines and both ends of the rows", () => {
+  const marker = (lineCount: number) => `[${lineCount} omitted]`;
+  const rows = Array.from({ length: 20 }, (_, index) => `row ${index}`);
+
+  assert.equal(truncateObservation("short", 10, marker), "short");
+  assert.equal(
+    truncateObservation(["Total of 20 logs found", ...rows].join("\n"), 100, marker),
+    ["Total of 20 logs found", "row 0", "row 1", "row 2", "row 3", "row 4", "[12 omitted]", "row 17", "row 18", "row 19"].join("\n")
+  );
+  // A single long line is cut instead of taking the whole limit
+  assert.equal(
+    truncateObservation(["Total of 1 log found", "a".repeat(100)].join("\n"), 120, marker),
+    ["Total of 1 log found", "a".repeat(30) + "..."].join("\n")
+  );
+});